@@ -0,0 +1,87 @@
+// Service worker for the installable app
+// - App shell: index.html and every file Vite emitted (listed in /precache-manifest.json at build time)
+//   are cached on install, so the planner opens from the home screen without a network round trip
+// - Navigations are answered with the cached shell and refreshed in the background
+// - GET /goals is stale-while-revalidate: the cached list is returned at once and updated for next time;
+//   any write to the API clears it so the app never reads back a list from before its own change
+
+// Bump to drop every cache of older releases on the next visit
+const VERSION = "v1";
+const SHELL_CACHE = `shell-${VERSION}`;
+const API_CACHE = `api-${VERSION}`;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      const files = await fetch("/precache-manifest.json")
+        .then((res) => (res.ok ? res.json() : []))
+        .catch(() => []);
+      await cache.addAll(["/", ...files]);
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((k) => k !== SHELL_CACHE && k !== API_CACHE).map((k) => caches.delete(k)));
+      await self.clients.claim();
+    })(),
+  );
+});
+
+// Serve from `cacheName` right away and refresh the entry from the network
+async function staleWhileRevalidate(event, cacheName, key = event.request) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(key);
+  const network = fetch(event.request).then((res) => {
+    if (res.ok) cache.put(key, res.clone());
+    return res;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) (await caches.open(SHELL_CACHE)).put(request, res.clone());
+  return res;
+}
+
+// The goal list endpoint of the API server, wherever it is hosted
+const isGoalsList = (url) => url.pathname.endsWith("/goals");
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Writes (the app only sends them to the API) drop the cached goal list first so the next read is fresh
+  if (request.method !== "GET") {
+    event.respondWith(caches.delete(API_CACHE).then(() => fetch(request)));
+    return;
+  }
+
+  // Client-side routes all load the same shell
+  if (request.mode === "navigate") {
+    event.respondWith(staleWhileRevalidate(event, SHELL_CACHE, "/"));
+    return;
+  }
+
+  if (isGoalsList(url)) {
+    event.respondWith(staleWhileRevalidate(event, API_CACHE));
+    return;
+  }
+
+  // Hashed build output never changes, so the cached copy is always right
+  if (url.origin === self.location.origin && (url.pathname.startsWith("/assets/") || url.pathname.startsWith("/icons/"))) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,36 @@
+// Upgrades db.json to the current schema using the same migrations the app runs on load
+// Usage: npm run migrate [-- --dry-run] [-- --file path/to/db.json]
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { EMPTY_META, findImpossibleValues, getPendingMigrations, runMigrations, type SchemaMeta } from "../src/lib/migrations";
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const fileIndex = args.indexOf("--file");
+const file = resolve(fileIndex >= 0 ? args[fileIndex + 1] : "db.json");
+
+const db = JSON.parse(readFileSync(file, "utf8"));
+const meta: SchemaMeta = { ...EMPTY_META, ...db.meta };
+let goals = db.goals ?? [];
+
+if (getPendingMigrations(meta).length === 0) {
+  console.log(`${file} is already at schema version ${meta.schemaVersion}`);
+} else {
+  const result = runMigrations({ goals, categories: db.categories ?? [], transactions: db.transactions ?? [] }, meta);
+  for (const m of result.applied) console.log(`applied ${m.id}`);
+  goals = result.data.goals;
+
+  if (dryRun) {
+    console.log("dry run: no changes written");
+  } else {
+    const next = { ...db, ...result.data, meta: result.meta };
+    writeFileSync(file, JSON.stringify(next, null, 2) + "\n");
+    console.log(`${file} upgraded to schema version ${result.meta.schemaVersion}`);
+  }
+}
+
+// Impossible values are reported, never corrected automatically
+for (const f of findImpossibleValues(goals)) {
+  console.warn(`goal ${f.goalId} (${f.name}): ${f.issues.join("; ")}`);
+}
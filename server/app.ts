@@ -0,0 +1,244 @@
+// HTTP routes for the API server
+// Serves the json-server style routes the REST repository expects (/goals, /goals/:id, ?field=value filters,
+// /transactions, /categories, /views, /meta, /settings) plus POST /goals/:id/deposits|withdrawals, POST /transfers,
+// DELETE /transfers/:transferId and POST /transactions/:id/confirm|dismiss, and validates every write.
+// Ledger entries only change together with their goal's saved amount (see src/api/repository/ledger.ts)
+
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { ApiError, ValidationError } from "../src/api/errors";
+import type { DataStore, Entity, Filter, Repository } from "../src/api/repository/types";
+import { CURRENT_SCHEMA_VERSION } from "../src/lib/migrations";
+import { goalFormSchema, goalPatchSchema, goalSchema } from "../src/lib/goal-schema";
+import { sameCategory } from "../src/types/category";
+import type { Goal } from "../src/types/goal";
+import { sameViewName } from "../src/types/view";
+import {
+  categorySchema,
+  depositSchema,
+  entryChangeSchema,
+  metaSchema,
+  savedViewSchema,
+  settingsSchema,
+  transactionSchema,
+  transferSchema,
+  validate,
+  withdrawalSchema,
+} from "./validation";
+
+type Json = unknown;
+type Reply = { status: number; body?: Json };
+
+const today = () => new Date().toISOString().split("T")[0];
+
+async function readBody(req: IncomingMessage): Promise<Json> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ValidationError("Request body must be valid JSON");
+  }
+}
+
+const toFilter = <T>(params: URLSearchParams) => Object.fromEntries(params) as Filter<T>;
+
+// Fields of a ledger entry that decide its effect on a balance; a PUT may not change them
+const LEDGER_FIELDS = ["goalId", "amount", "type", "status", "transferId", "counterpartGoalId"] as const;
+
+export function createApp(store: DataStore) {
+  // Rules for each collection: how a new record is built, how a PATCH/PUT payload is checked and applied,
+  // and what else goes when a record is deleted
+  const collections: Record<string, {
+    repo: Repository<Entity>;
+    create: (body: Json) => Promise<Entity>;
+    patch: (id: string, body: Json) => Promise<Entity>;
+    put: (id: string, body: Json) => Promise<Entity>;
+    remove?: (id: string) => Promise<void>; // Instead of repo.remove
+  }> = {
+    goals: {
+      repo: store.goals,
+      // IDs, balances and bookkeeping fields are always set here, never taken from the client
+      create: async (body) => {
+        const values = validate(goalFormSchema, body);
+        const goal: Goal = {
+          ...values,
+          id: randomUUID(),
+          savedAmount: 0,
+          createdAt: today(),
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          version: 1,
+        };
+        return store.goals.create(goal);
+      },
+      patch: (id, body) => store.goals.update(id, validate(goalPatchSchema, body)),
+      put: (id, body) => store.goals.replace(id, { ...validate(goalSchema, body), id }),
+      // A goal's ledger goes with it; refused with a 409 while the goal has transfer legs
+      remove: (id) => store.removeGoal(id),
+    },
+    transactions: {
+      repo: store.transactions,
+      // Only pending contributions, which don't count yet; everything else has its own route that moves the balance too
+      create: async (body) => {
+        const values = validate(transactionSchema, body);
+        if (values.type !== "deposit" || values.status !== "pending") {
+          throw new ValidationError("Record deposits, withdrawals and transfers through their own routes", { type: "Only pending deposits can be created here" });
+        }
+        await store.goals.get(values.goalId).catch(() => {
+          throw new ValidationError("The goal for this entry doesn't exist", { goalId: "Unknown goal" });
+        });
+        return store.transactions.create({ ...values, id: randomUUID() });
+      },
+      // Amount and note only, checked against the goal's balance; status changes through /confirm
+      patch: (id, body) => store.editEntry(id, validate(entryChangeSchema, body)),
+      // Whole-entry writes (schema migrations) may not change anything that affects a balance
+      put: async (id, body) => {
+        const values = validate(transactionSchema, body);
+        const current = await store.transactions.get(id);
+        const changed = LEDGER_FIELDS.find((field) => values[field] !== current[field]);
+        if (changed) throw new ValidationError(`A ledger entry's ${changed} can't be replaced`, { [changed]: "Can't be changed" });
+        return store.transactions.replace(id, { ...values, id });
+      },
+      remove: (id) => store.removeEntry(id),
+    },
+    categories: {
+      repo: store.categories,
+      create: async (body) => {
+        const values = validate(categorySchema, body);
+        const existing = await store.categories.list();
+        if (existing.some((c) => sameCategory(c.name, values.name))) {
+          throw new ValidationError(`A category named "${values.name}" already exists`, { name: "Already in use" }, undefined, {
+            code: "category-exists",
+            params: { name: values.name },
+          });
+        }
+        return store.categories.create({ ...values, id: randomUUID() });
+      },
+      patch: (id, body) => store.categories.update(id, validate(categorySchema.partial(), body)),
+      put: (id, body) => store.categories.replace(id, { ...validate(categorySchema, body), id }),
+    },
+    views: {
+      repo: store.views,
+      create: async (body) => {
+        const values = validate(savedViewSchema, body);
+        const existing = await store.views.list();
+        if (existing.some((v) => sameViewName(v.name, values.name))) {
+          throw new ValidationError(`A view named "${values.name}" already exists`, { name: "Already in use" }, undefined, {
+            code: "view-exists",
+            params: { name: values.name },
+          });
+        }
+        return store.views.create({ ...values, id: randomUUID() });
+      },
+      patch: (id, body) => store.views.update(id, validate(savedViewSchema.partial(), body)),
+      put: (id, body) => store.views.replace(id, { ...validate(savedViewSchema, body), id }),
+    },
+  };
+
+  async function route(method: string, url: URL, req: IncomingMessage): Promise<Reply> {
+    const [name, id, action, ...rest] = url.pathname.split("/").filter(Boolean);
+
+    if (name === "meta" && !id) {
+      if (method === "GET") {
+        const meta = await store.meta.read();
+        if (!meta) throw new ApiError("No schema metadata yet", { status: 404 });
+        return { status: 200, body: meta };
+      }
+      if (method === "PUT") return { status: 200, body: await store.meta.write(validate(metaSchema, await readBody(req))) };
+    }
+
+    if (name === "settings" && !id) {
+      if (method === "GET") {
+        const settings = await store.settings.read();
+        if (!settings) throw new ApiError("No settings saved yet", { status: 404 });
+        return { status: 200, body: settings };
+      }
+      if (method === "PUT") return { status: 200, body: await store.settings.write(validate(settingsSchema, await readBody(req))) };
+    }
+
+    // Ledger entry and new balance are written together, checked against the goal version the client saw
+    if (name === "goals" && id && action === "deposits" && rest.length === 0 && method === "POST") {
+      const body = validate(depositSchema, await readBody(req));
+      return { status: 201, body: await store.deposit({ goalId: id, ...body }) };
+    }
+
+    // Likewise withdrawals, which are also rejected when the goal doesn't hold the amount
+    if (name === "goals" && id && action === "withdrawals" && rest.length === 0 && method === "POST") {
+      const body = validate(withdrawalSchema, await readBody(req));
+      return { status: 201, body: await store.withdraw({ goalId: id, ...body }) };
+    }
+
+    // Both legs of a transfer and both balances are written (or removed) together
+    if (name === "transfers" && !action) {
+      if (!id && method === "POST") return { status: 201, body: await store.transfer(validate(transferSchema, await readBody(req))) };
+      if (id && method === "DELETE") {
+        await store.removeTransfer(id);
+        return { status: 200, body: {} };
+      }
+    }
+
+    // Pending contributions are confirmed (status and balance together) or dismissed only while still pending
+    if (name === "transactions" && id && rest.length === 0 && method === "POST") {
+      if (action === "confirm") return { status: 200, body: await store.confirmEntry(id) };
+      if (action === "dismiss") {
+        await store.dismissEntry(id);
+        return { status: 200, body: {} };
+      }
+    }
+
+    const collection = collections[name];
+    if (!collection || action) throw new ApiError(`No route for ${url.pathname}`, { status: 404 });
+
+    if (!id) {
+      if (method === "GET") return { status: 200, body: await collection.repo.list(toFilter(url.searchParams)) };
+      if (method === "POST") return { status: 201, body: await collection.create(await readBody(req)) };
+    } else {
+      switch (method) {
+        case "GET":
+          return { status: 200, body: await collection.repo.get(id) };
+        case "PATCH":
+          return { status: 200, body: await collection.patch(id, await readBody(req)) };
+        case "PUT":
+          return { status: 200, body: await collection.put(id, await readBody(req)) };
+        case "DELETE":
+          await (collection.remove ?? collection.repo.remove)(id);
+          return { status: 200, body: {} };
+      }
+    }
+    return { status: 405, body: { message: `${method} is not supported on ${url.pathname}` } };
+  }
+
+  // Requests are handled one at a time so a read-then-write (deposits, version checks) can't interleave
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const handled = queue.then(() => route(req.method ?? "GET", url, req));
+    queue = handled.catch(() => undefined);
+
+    handled
+      .catch((e): Reply => {
+        if (e instanceof ApiError) {
+          const errors = e instanceof ValidationError ? e.fieldErrors : undefined;
+          // `code` lets the app show the message in the user's language
+          return { status: e.status ?? 500, body: { message: e.message, errors, code: e.code, params: e.params } };
+        }
+        console.error(e);
+        return { status: 500, body: { message: "Internal server error" } };
+      })
+      .then(({ status, body }) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body ?? {}));
+      });
+  };
+}
@@ -0,0 +1,21 @@
+// Local API server for the Smart Goal Planner
+// Replaces json-server: same routes, but payloads are validated, IDs are assigned here and deposits are atomic
+// Usage: npm run server [-- --port 3000] [-- --file path/to/db.json]
+
+import { createServer } from "node:http";
+import { resolve } from "node:path";
+import { createApp } from "./app";
+import { createFileStore } from "./store";
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const port = Number(option("--port") ?? process.env.PORT ?? 3000);
+const file = resolve(option("--file") ?? "db.json");
+
+createServer(createApp(createFileStore(file))).listen(port, () => {
+  console.log(`API server on http://localhost:${port} (data: ${file})`);
+});
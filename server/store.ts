@@ -0,0 +1,57 @@
+// db.json-backed data store for the API server
+// Collections are held in memory (see src/api/repository/memory.ts) and the whole file is
+// rewritten after every change, the same way the browser's localStorage backend works
+
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+import { createDeposit } from "../src/api/repository/deposit";
+import { createTransfer, createTransferRemoval } from "../src/api/repository/transfer";
+import { createConfirmation, createDismissal, createEntryEdit, createEntryRemoval, createGoalRemoval, createWithdrawal } from "../src/api/repository/ledger";
+import { createMemoryDocument, createMemoryRepository } from "../src/api/repository/memory";
+import { withVersionCheck } from "../src/api/repository/versioned";
+import { RESOURCE_LABELS, type DataStore, type Snapshot } from "../src/api/repository/types";
+import { EMPTY_META, runMigrations, type SchemaMeta } from "../src/lib/migrations";
+
+// Read the file and bring it up to the current schema before anything is served
+export function loadSnapshot(file: string): Snapshot {
+  const db: Snapshot = JSON.parse(readFileSync(file, "utf8"));
+  const meta: SchemaMeta = { ...EMPTY_META, ...db.meta };
+  const result = runMigrations({ goals: db.goals ?? [], categories: db.categories ?? [], transactions: db.transactions ?? [] }, meta);
+  for (const m of result.applied) console.log(`applied migration ${m.id}`);
+  for (const f of result.flagged) console.warn(`goal ${f.goalId} (${f.name}): ${f.issues.join("; ")}`);
+  return { ...db, ...result.data, meta: result.meta };
+}
+
+export function createFileStore(file: string): DataStore {
+  const snapshot = loadSnapshot(file);
+
+  // Write to a temporary file first so a crash never leaves a half-written db.json
+  const persist = () => {
+    writeFileSync(`${file}.tmp`, JSON.stringify(snapshot, null, 2) + "\n");
+    renameSync(`${file}.tmp`, file);
+  };
+  const save = <K extends keyof Snapshot>(key: K) => (value: Snapshot[K]) => {
+    snapshot[key] = value;
+    persist();
+  };
+  persist(); // Keep any migrations that just ran
+
+  const goals = withVersionCheck(createMemoryRepository(snapshot.goals, save("goals"), RESOURCE_LABELS.goals));
+  const transactions = createMemoryRepository(snapshot.transactions, save("transactions"), RESOURCE_LABELS.transactions);
+  return {
+    goals,
+    transactions,
+    categories: createMemoryRepository(snapshot.categories, save("categories"), RESOURCE_LABELS.categories),
+    views: createMemoryRepository(snapshot.views, save("views"), RESOURCE_LABELS.views),
+    meta: createMemoryDocument<SchemaMeta>(snapshot.meta, save("meta")),
+    settings: createMemoryDocument(snapshot.settings, save("settings")),
+    deposit: createDeposit(goals, transactions),
+    transfer: createTransfer(goals, transactions),
+    removeTransfer: createTransferRemoval(goals, transactions),
+    withdraw: createWithdrawal(goals, transactions),
+    editEntry: createEntryEdit(goals, transactions),
+    removeEntry: createEntryRemoval(goals, transactions),
+    removeGoal: createGoalRemoval(goals, transactions),
+    confirmEntry: createConfirmation(goals, transactions),
+    dismissEntry: createDismissal(transactions),
+  };
+}
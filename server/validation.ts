@@ -0,0 +1,102 @@
+// Request payload rules for the API server
+// Goals use the same zod schemas as GoalForm (src/lib/goal-schema.ts); the rest are server-only
+
+import * as z from "zod";
+import { ValidationError, type FieldErrors } from "../src/api/errors";
+import { minorUnits } from "../src/lib/goal-schema";
+import { GOAL_STATUSES } from "../src/lib/forecast";
+import { GOAL_SORT_KEYS } from "../src/lib/goal-query";
+import { DATE_FORMATS, LANGUAGES, LOCALES, WEEK_STARTS, type Language, type WeekStart } from "../src/types/settings";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+export const transactionSchema = z.object({
+  goalId: z.string().min(1, "Goal is required"),
+  amount: minorUnits.positive("Amount must be positive"),
+  date: isoDate,
+  note: z.string().default(""),
+  type: z.enum(["deposit", "withdrawal", "transfer-out", "transfer-in"]),
+  reason: z.enum(["emergency", "purchase", "reallocation", "other"]).optional(),
+  transferId: z.string().optional(),
+  counterpartGoalId: z.string().optional(),
+  status: z.enum(["pending", "posted"]).optional(),
+  source: z.literal("plan").optional(),
+});
+
+export const categorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required"),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Use a hex color like #3b82f6"),
+  icon: z.string().min(1, "Icon is required"),
+});
+
+export const savedViewSchema = z.object({
+  name: z.string().trim().min(1, "View name is required"),
+  query: z.object({
+    search: z.string().default(""),
+    category: z.string().default(""),
+    status: z.enum(["", ...GOAL_STATUSES]).default(""),
+    sort: z.enum(["", ...GOAL_SORT_KEYS]).default(""),
+    dir: z.enum(["asc", "desc"]).default("asc"),
+    deadlineFrom: z.union([z.literal(""), isoDate]).default(""),
+    deadlineTo: z.union([z.literal(""), isoDate]).default(""),
+  }),
+  isDefault: z.boolean().optional(),
+});
+
+export const metaSchema = z.object({
+  schemaVersion: z.number().int().min(0),
+  migrations: z.array(z.object({ id: z.string(), version: z.number().int(), ranAt: z.string() })),
+});
+
+// Every field is required so the stored document is always complete
+export const settingsSchema = z.object({
+  language: z.enum(LANGUAGES.map((l) => l.code) as [Language, ...Language[]]),
+  locale: z.string().refine((code) => LOCALES.some((l) => l.code === code), "Unsupported locale"),
+  baseCurrency: z.string().regex(/^[A-Z]{3}$/, "Use a three-letter currency code like KES"),
+  dateFormat: z.enum(DATE_FORMATS),
+  weekStartsOn: z.number().refine((d): d is WeekStart => (WEEK_STARTS as readonly number[]).includes(d), "Weeks start on Sunday (0), Monday (1) or Saturday (6)"),
+});
+
+export const depositSchema = z.object({
+  amount: minorUnits.positive("Deposit amount must be positive"),
+  note: z.string().optional(),
+  date: isoDate.optional(),
+  version: z.number().int().optional(),
+});
+
+export const withdrawalSchema = z.object({
+  amount: minorUnits.positive("Withdrawal amount must be positive"),
+  reason: transactionSchema.shape.reason.unwrap(),
+  note: z.string().optional(),
+  date: isoDate.optional(),
+  version: z.number().int().optional(),
+});
+
+// Corrections to an existing entry; anything else is rejected rather than ignored
+export const entryChangeSchema = z
+  .object({
+    amount: minorUnits.positive("Amount must be positive").optional(),
+    note: z.string().optional(),
+  })
+  .strict("Only the amount and note of a ledger entry can be changed");
+
+export const transferSchema = z.object({
+  fromGoalId: z.string().min(1, "Source goal is required"),
+  toGoalId: z.string().min(1, "Destination goal is required"),
+  amount: minorUnits.positive("Transfer amount must be positive"),
+  receivedAmount: minorUnits.positive("Received amount must be positive").optional(),
+  note: z.string().optional(),
+});
+
+// Parse `body` or throw a ValidationError listing the first problem with each field
+export function validate<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body);
+  if (result.success) return result.data;
+
+  const fieldErrors: FieldErrors = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path.join(".") || "body";
+    fieldErrors[field] ??= issue.message;
+  }
+  throw new ValidationError(result.error.issues[0].message, fieldErrors);
+}
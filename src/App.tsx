@@ -7,17 +7,28 @@ import { TooltipProvider } from "@/components/ui/tooltip"; // Enables hover tool
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query"; // React Query for server state management
 import { BrowserRouter, Routes, Route } from "react-router-dom"; // React Router for client-side routing
 import { HelmetProvider } from "react-helmet-async"; // SEO and meta tag management
+import { ThemeProvider } from "next-themes"; // Light/dark theme via the .dark class on <html>
+import { startOfflineSync } from "@/api/offline"; // Offline queue replay for the REST backend
 import Index from "./pages/Index"; // Main dashboard page component
+import Categories from "./pages/Categories"; // Category management page
+import GoalDetail from "./pages/GoalDetail"; // Single goal with its history, chart and notes
+import Analytics from "./pages/Analytics"; // Category breakdown and monthly savings
+import Settings from "./pages/Settings"; // Locale, base currency and date display settings
 import NotFound from "./pages/NotFound"; // 404 error page component
 
 // Create a single instance of QueryClient for the entire app
 // This manages caching, background refetching, and state synchronization
 const queryClient = new QueryClient();
 
+// Replay changes queued while offline and refresh cached data once they have been sent
+startOfflineSync(() => queryClient.invalidateQueries());
+
 // Main application component that wraps everything with providers
 const App = () => (
   // HelmetProvider enables dynamic meta tag management for SEO
   <HelmetProvider>
+    {/* ThemeProvider toggles the .dark palette from index.css; the choice is stored in this browser */}
+    <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange storageKey="smart-goal-planner:theme">
     {/* QueryClientProvider gives all child components access to React Query */}
     <QueryClientProvider client={queryClient}>
       {/* TooltipProvider enables hover tooltips globally */}
@@ -32,12 +43,21 @@ const App = () => (
           <Routes>
             {/* Main route for the dashboard/home page */}
             <Route path="/" element={<Index />} />
+            {/* Category management */}
+            <Route path="/categories" element={<Categories />} />
+            {/* Category breakdown and savings velocity */}
+            <Route path="/analytics" element={<Analytics />} />
+            {/* Locale, base currency, date format and first day of the week */}
+            <Route path="/settings" element={<Settings />} />
+            {/* Goal detail page; unknown IDs render a goal-specific not-found state */}
+            <Route path="/goals/:id" element={<GoalDetail />} />
             {/* Catch-all route for 404 pages - must be last */}
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
+    </ThemeProvider>
   </HelmetProvider>
 );
 
@@ -0,0 +1,136 @@
+// API layer for goal categories
+// Categories live in their own /categories collection; goals and saved views store the category name,
+// so renames, merges and deletes also rewrite every goal and view that uses the category
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"; // React Query for server state management
+import { store } from "./repository"; // Configured storage backend
+import { ConflictError, ValidationError } from "./errors"; // Structured API errors
+import { fetchGoals, patchGoal } from "./goals"; // Goal endpoints used to follow category changes
+import { fetchViews, patchView } from "./views"; // Saved views filter by category name too
+import { Category, CategoryInput, sameCategory } from "@/types/category"; // Category type definitions
+
+// Fetch all categories
+export const fetchCategories = () => store.categories.list();
+
+// Create a new category
+export const postCategory = (input: CategoryInput) => {
+  const body: Category = { id: Date.now().toString(), ...input, name: input.name.trim() };
+  return store.categories.create(body);
+};
+
+// Partially update a category
+export const patchCategory = (id: string, data: Partial<Category>) => store.categories.update(id, data);
+
+// Delete a category by ID
+export const deleteCategoryApi = (id: string) => store.categories.remove(id);
+
+// Point every goal filed under `from` at `to`, and every saved view filtering on `from`
+// so a renamed or merged category doesn't leave views that match nothing
+async function reassignGoals(from: string, to: string) {
+  const goals = await fetchGoals();
+  const affected = goals.filter((g) => sameCategory(g.category, from) && g.category !== to);
+  for (const goal of affected) {
+    await patchGoal(goal.id, { category: to });
+  }
+  const views = await fetchViews();
+  for (const view of views.filter((v) => v.query.category && sameCategory(v.query.category, from) && v.query.category !== to)) {
+    await patchView(view.id, { query: { ...view.query, category: to } });
+  }
+  return affected.length;
+}
+
+// Reject names that would collide with another category
+async function assertUniqueName(name: string, exceptId?: string) {
+  const categories = await fetchCategories();
+  if (categories.some((c) => c.id !== exceptId && sameCategory(c.name, name))) {
+    throw new ValidationError(`A category named "${name.trim()}" already exists`, { name: "Already in use" }, undefined, {
+      code: "category-exists",
+      params: { name: name.trim() },
+    });
+  }
+}
+
+// Create a category after checking the name is free
+export async function createCategory(input: CategoryInput) {
+  await assertUniqueName(input.name);
+  return postCategory(input);
+}
+
+// Update a category; a new name is carried over to all of its goals
+export async function updateCategory(category: Category, data: CategoryInput) {
+  const name = data.name.trim();
+  if (!sameCategory(name, category.name)) await assertUniqueName(name, category.id);
+  const updated = await patchCategory(category.id, { ...data, name });
+  await reassignGoals(category.name, name);
+  return updated;
+}
+
+// Merge `source` into `target`: its goals move over and the source category is removed
+export async function mergeCategories(source: Category, target: Category) {
+  if (source.id === target.id) {
+    throw new ValidationError("Choose a different category to merge into", { target: "Choose a different category" }, undefined, { code: "same-category-merge" });
+  }
+  await reassignGoals(source.name, target.name);
+  await deleteCategoryApi(source.id);
+}
+
+// Delete a category; goals still using it must be moved to `reassignTo` first
+export async function deleteCategory(category: Category, reassignTo?: Category) {
+  if (reassignTo) return mergeCategories(category, reassignTo);
+  const goals = await fetchGoals();
+  if (goals.some((g) => sameCategory(g.category, category.name))) {
+    throw new ConflictError("This category is still used by goals; choose a category to move them to", undefined, { code: "category-in-use" });
+  }
+  await deleteCategoryApi(category.id);
+}
+
+// React Query hook for fetching all categories
+export function useCategories() {
+  return useQuery({ queryKey: ["categories"], queryFn: fetchCategories });
+}
+
+// Category changes can rewrite goals and saved views, so those caches are refreshed afterwards
+function useInvalidateCategories() {
+  const qc = useQueryClient(); // Get the query client instance
+  return () => Promise.all([
+    qc.invalidateQueries({ queryKey: ["categories"] }),
+    qc.invalidateQueries({ queryKey: ["goals"] }),
+    qc.invalidateQueries({ queryKey: ["views"] }),
+  ]);
+}
+
+// React Query mutation hook for creating categories
+export function useCreateCategory() {
+  const invalidate = useInvalidateCategories();
+  return useMutation({
+    mutationFn: (input: CategoryInput) => createCategory(input),
+    onSuccess: invalidate,
+  });
+}
+
+// React Query mutation hook for renaming/recoloring categories
+export function useUpdateCategory() {
+  const invalidate = useInvalidateCategories();
+  return useMutation({
+    mutationFn: ({ category, data }: { category: Category; data: CategoryInput }) => updateCategory(category, data),
+    onSuccess: invalidate,
+  });
+}
+
+// React Query mutation hook for merging one category into another
+export function useMergeCategories() {
+  const invalidate = useInvalidateCategories();
+  return useMutation({
+    mutationFn: ({ source, target }: { source: Category; target: Category }) => mergeCategories(source, target),
+    onSettled: invalidate, // Refresh even when only some goals were moved
+  });
+}
+
+// React Query mutation hook for deleting categories
+export function useDeleteCategory() {
+  const invalidate = useInvalidateCategories();
+  return useMutation({
+    mutationFn: ({ category, reassignTo }: { category: Category; reassignTo?: Category }) => deleteCategory(category, reassignTo),
+    onSettled: invalidate,
+  });
+}
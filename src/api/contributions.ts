@@ -0,0 +1,107 @@
+// API layer for recurring contribution plans
+// Due occurrences of a goal's plan are written to the ledger as pending deposits;
+// they only move the goal's savedAmount once the user confirms them
+
+import { useEffect, useRef } from "react"; // Used to run the materializer once per load
+import { useQuery, useMutation } from "@tanstack/react-query"; // React Query for server state management
+import { store } from "./repository"; // Configured storage backend
+import { patchGoal } from "./goals"; // Goal endpoint used to advance the plan
+import { ConflictError } from "./errors"; // Raised when another device claimed the occurrences first
+import { fetchPendingTransactions, postTransaction, useInvalidateLedger } from "./transactions"; // Ledger endpoints
+import { getDueOccurrences } from "@/lib/schedule"; // Occurrence calculation
+import type { Goal } from "@/types/goal"; // TypeScript type definitions for Goal objects
+import type { Transaction } from "@/types/transaction"; // Ledger type definitions
+
+// Create pending deposits for every occurrence that has come due since the last run
+// The occurrences are claimed first by advancing the plan's scheduledThrough marker against the goal version
+// that was read, so another tab or device (or a stale cached goal list) gets a ConflictError and skips the goal
+// instead of writing the same deposits again. Occurrences that already have a pending entry are never written twice
+export async function materializeDueContributions(goals: Goal[]) {
+  const pending = new Set((await fetchPendingTransactions()).map((tx) => `${tx.goalId}:${tx.date}`));
+  let created = 0;
+  for (const goal of goals) {
+    if (!goal.plan) continue;
+    const due = getDueOccurrences(goal.plan).filter((date) => !pending.has(`${goal.id}:${date}`));
+    if (due.length === 0) continue;
+
+    let claimed: Goal;
+    try {
+      claimed = await patchGoal(goal.id, { plan: { ...goal.plan, scheduledThrough: due[due.length - 1] }, version: goal.version });
+    } catch (e) {
+      if (e instanceof ConflictError) continue; // Claimed elsewhere, or the plan changed; the next load sees the new state
+      throw e;
+    }
+
+    try {
+      for (const date of due) {
+        // Suffix keeps IDs unique when several occurrences are written in the same tick
+        // No note is stored; the list labels plan entries in the reader's language
+        await postTransaction(
+          { goalId: goal.id, amount: goal.plan.amount, date, status: "pending", source: "plan" },
+          "deposit",
+          `${Date.now()}-${goal.id}-${date}`,
+        );
+        created++;
+      }
+    } catch (e) {
+      // Release the claim so the next load retries; occurrences written so far are skipped as already pending
+      await patchGoal(goal.id, { plan: goal.plan, version: claimed.version }).catch(() => undefined);
+      throw e;
+    }
+  }
+  return created;
+}
+
+// Confirm pending deposits: the store posts each one and adds it to its goal in one step
+// Entries confirmed or dismissed elsewhere in the meantime are rejected with a ConflictError
+export async function confirmContributions(txs: Transaction[]) {
+  for (const tx of txs) {
+    await store.confirmEntry(tx.id);
+  }
+}
+
+// Dismiss pending deposits; they never touched savedAmount, and the store refuses entries already confirmed
+export async function dismissContributions(txs: Transaction[]) {
+  for (const tx of txs) {
+    await store.dismissEntry(tx.id);
+  }
+}
+
+// React Query hook for deposits awaiting confirmation
+export function usePendingContributions() {
+  return useQuery({ queryKey: ["transactions", "pending"], queryFn: fetchPendingTransactions });
+}
+
+// Runs the materializer once after goals have loaded
+// Plans are re-checked on the next app load, not on every refetch
+export function useMaterializeContributions(goals: Goal[] | undefined) {
+  const invalidate = useInvalidateLedger();
+  const ran = useRef(false);
+  useEffect(() => {
+    if (!goals || ran.current) return;
+    ran.current = true;
+    materializeDueContributions(goals)
+      .then((created) => {
+        if (created > 0) return invalidate();
+      })
+      .catch((e) => console.error("Failed to schedule contributions:", e));
+  }, [goals, invalidate]);
+}
+
+// React Query mutation hook for confirming pending deposits in bulk
+export function useConfirmContributions() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (txs: Transaction[]) => confirmContributions(txs),
+    onSettled: invalidate, // Refresh even after a partial failure
+  });
+}
+
+// React Query mutation hook for dismissing pending deposits in bulk
+export function useDismissContributions() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (txs: Transaction[]) => dismissContributions(txs),
+    onSettled: invalidate,
+  });
+}
@@ -0,0 +1,112 @@
+// Structured errors for the API layer
+// Every storage backend throws one of these so components can react to the kind of failure
+// and show a readable message instead of whatever text the server sent back
+
+export type FieldErrors = Record<string, string>;
+
+// Names the interface message for an error (`error.<code>` in src/i18n) and the values for its placeholders
+// `message` stays the English text, shown when a catalog has no message for the code
+export interface ErrorCode {
+  code: string;
+  params?: Record<string, string | number>;
+}
+
+// Base class; `message` is always safe to show to users, `detail` keeps the raw cause for logs
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly detail?: string;
+  readonly code?: string;
+  readonly params?: ErrorCode["params"];
+
+  constructor(message: string, options: { status?: number; detail?: string } & Partial<ErrorCode> = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.detail = options.detail;
+    this.code = options.code;
+    this.params = options.params;
+  }
+}
+
+// The request never reached the server (offline, server down, CORS)
+export class NetworkError extends ApiError {
+  constructor(detail?: string) {
+    super("Can't reach the server. Check your connection and try again.", { detail, code: "network" });
+  }
+}
+
+// 404 - `resource` names what was looked up, e.g. "Goal" -> "Goal no longer exists" (code "not-found.goal")
+export class NotFoundError extends ApiError {
+  constructor(resource = "Item", detail?: string) {
+    super(`${resource} no longer exists`, { status: 404, detail, code: `not-found.${resource.toLowerCase().replace(/\s+/g, "-")}` });
+  }
+}
+
+// 409 - the write clashed with the stored state
+export class ConflictError extends ApiError {
+  constructor(message?: string, detail?: string, code: ErrorCode | undefined = message ? undefined : { code: "conflict" }) {
+    super(message ?? "This item was changed somewhere else. Reload and try again.", { status: 409, detail, ...code });
+  }
+}
+
+// 422 - the payload broke a domain rule; `fieldErrors` maps field names to messages
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message?: string, fieldErrors: FieldErrors = {}, detail?: string, code: ErrorCode | undefined = message ? undefined : { code: "invalid" }) {
+    super(message ?? "Some fields are invalid", { status: 422, detail, ...code });
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 5xx (and any other unexpected status)
+export class ServerError extends ApiError {
+  constructor(status?: number, detail?: string) {
+    super("Something went wrong on the server. Please try again.", { status, detail, code: "server" });
+  }
+}
+
+// Shape of error bodies sent by the API server: { message?, errors?: { field: message }, code?, params? }
+interface ErrorBody {
+  message?: string;
+  errors?: FieldErrors;
+  code?: string;
+  params?: ErrorCode["params"];
+}
+
+// The code sent with an error body, if any
+const codeOf = (body: ErrorBody): ErrorCode | undefined => (body.code ? { code: body.code, params: body.params } : undefined);
+
+const parseBody = (text: string): ErrorBody => {
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body === "object" ? body : {};
+  } catch {
+    return {};
+  }
+};
+
+// Convert a failed response into the matching error class
+export async function toApiError(res: Response, resource?: string): Promise<ApiError> {
+  const text = await res.text().catch(() => "");
+  const body = parseBody(text);
+  const detail = text || `${res.status} ${res.statusText}`;
+
+  switch (res.status) {
+    case 404:
+      return new NotFoundError(resource, detail);
+    case 409:
+      return new ConflictError(body.message, detail, codeOf(body));
+    case 400:
+    case 422:
+      return new ValidationError(body.message, body.errors, detail, codeOf(body));
+    default:
+      return new ServerError(res.status, detail);
+  }
+}
+
+// Message for toasts and inline errors; unknown errors fall back to the caller's wording
+// Components use errorMessage from useTranslation instead, which shows the message in the chosen language
+export function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof ApiError ? error.message : fallback;
+}
@@ -2,123 +2,126 @@
 // This file contains all the data fetching and mutation logic for goals
 // It uses React Query for state management and provides custom hooks for components
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"; // React Query for server state management
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query"; // React Query for server state management
 import { Goal, GoalInput } from "@/types/goal"; // TypeScript type definitions for Goal objects
-
-// Base URL for the JSON server API
-// Using localhost:3000 as specified in project requirements (no environment variables)
-const BASE_URL = "http://localhost:3000"; // json-server base URL (no envs per project rules)
-const GOALS_URL = `${BASE_URL}/goals`; // Full URL for goals endpoint
-
-// Generic HTTP client function for making API requests
-// Provides consistent error handling and JSON parsing
-async function http<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
-  // Make the fetch request with JSON content type header
-  const res = await fetch(input, {
-    headers: { "Content-Type": "application/json" },
-    ...init,
-  });
-  
-  // Handle error responses by throwing descriptive errors
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(text || `Request failed: ${res.status}`);
-  }
-  
-  // Parse and return JSON response
-  return res.json();
-}
+import { store } from "./repository"; // Configured storage backend (REST, localStorage or in-memory)
+import { ensureMigrated } from "./migrations"; // Schema upgrades that must finish before goals are read
+import { CURRENT_SCHEMA_VERSION } from "@/lib/migrations"; // Version stamped on new goals
+import { createGoalOrQueue, withOfflineGoals } from "./offline"; // Offline cache and queue for the REST backend
 
 // Fetch all goals from the API
 // Returns an array of Goal objects
-export const fetchGoals = () => http<Goal[]>(GOALS_URL);
+export const fetchGoals = () => store.goals.list();
+
+// Fetch a single goal by ID
+// Used when a write must be based on the server's current state rather than the cache
+export const fetchGoal = (id: string) => store.goals.get(id);
+
+// Build a complete Goal from form input
+// Generates a timestamp based ID (the API server assigns its own) and sets initial saved amount to 0
+export const buildGoal = (input: GoalInput, id = Date.now().toString()): Goal => ({
+  id,
+  name: input.name,
+  targetAmount: input.targetAmount,
+  savedAmount: 0, // Initialize saved amount to 0 for new goals
+  currency: input.currency,
+  category: input.category,
+  deadline: input.deadline,
+  createdAt: new Date().toISOString().split("T")[0], // Current date in YYYY-MM-DD format
+  schemaVersion: CURRENT_SCHEMA_VERSION, // New goals are already in the current shape
+  version: 1, // First revision
+});
 
 // Create a new goal with the provided input data
-// Generates a unique ID and sets initial saved amount to 0
-export const postGoal = (input: GoalInput) => {
-  // Construct the complete Goal object with generated fields
-  const body: Goal = {
-    id: Date.now().toString(), // Generate unique ID based on timestamp
-    name: input.name,
-    targetAmount: input.targetAmount,
-    savedAmount: 0, // Initialize saved amount to 0 for new goals
-    category: input.category,
-    deadline: input.deadline,
-    createdAt: new Date().toISOString().split("T")[0], // Current date in YYYY-MM-DD format
-  };
-  
-  // Send POST request to create the goal
-  return http<Goal>(GOALS_URL, { method: "POST", body: JSON.stringify(body) });
-};
+export const postGoal = (input: GoalInput) => store.goals.create(buildGoal(input));
 
 // Partially update an existing goal
-// Uses PATCH method to update only specified fields
-export const patchGoal = (id: string, data: Partial<Goal>) =>
-  http<Goal>(`${GOALS_URL}/${id}`, { method: "PATCH", body: JSON.stringify(data) });
+// Only the specified fields are changed (PATCH on the REST backend)
+// Include the `version` the change was based on to have it rejected with a ConflictError when stale
+export const patchGoal = (id: string, data: Partial<Goal>) => store.goals.update(id, data);
 
 // Fully replace an existing goal
-// Uses PUT method to replace the entire goal object
-export const putGoal = (id: string, data: Goal) =>
-  http<Goal>(`${GOALS_URL}/${id}`, { method: "PUT", body: JSON.stringify(data) });
+// The entire goal object is overwritten (PUT on the REST backend); its `version` is checked like patchGoal's
+export const putGoal = (id: string, data: Goal) => store.goals.replace(id, data);
 
 // Delete a goal by ID
-// Uses DELETE method to remove the goal from the database
-export const deleteGoalApi = (id: string) =>
-  fetch(`${GOALS_URL}/${id}`, { method: "DELETE" }).then((res) => {
-    if (!res.ok) throw new Error(`Failed to delete: ${res.status}`);
-  });
+// The store removes the goal and its ledger entries together; goals with transfers are refused with a ConflictError
+export const deleteGoalApi = (id: string) => store.removeGoal(id);
 
 // React Query hook for fetching all goals
 // Provides loading, error, and data states
+// Pending schema migrations are applied first so components only ever see the current shape
+// Without a connection the last goals loaded (plus changes queued offline) are shown instead
 export function useGoals() {
-  return useQuery({ queryKey: ["goals"], queryFn: fetchGoals });
+  return useQuery({ queryKey: ["goals"], queryFn: () => withOfflineGoals(() => ensureMigrated().then(fetchGoals)) });
+}
+
+// Optimistic cache helpers
+// Mutations write their expected result into the ["goals"] cache before the server answers
+// and put the snapshot back if the server rejects the change
+export type GoalsSnapshot = { previous?: Goal[] };
+
+// Cancel in-flight refetches (so they can't overwrite the optimistic value), snapshot the cache and apply `update`
+export async function updateGoalsCache(qc: QueryClient, update: (goals: Goal[]) => Goal[]): Promise<GoalsSnapshot> {
+  await qc.cancelQueries({ queryKey: ["goals"] });
+  const previous = qc.getQueryData<Goal[]>(["goals"]);
+  if (previous) qc.setQueryData<Goal[]>(["goals"], update(previous));
+  return { previous };
+}
+
+// Put the snapshot taken by updateGoalsCache back
+export function restoreGoalsCache(qc: QueryClient, snapshot?: GoalsSnapshot) {
+  if (snapshot?.previous) qc.setQueryData<Goal[]>(["goals"], snapshot.previous);
 }
 
+// The version the store will give a goal after one more write
+// Optimistic updates predict it so a quick second change isn't mistaken for a stale one
+export const bumpVersion = (goal: Goal) => (goal.version ?? 0) + 1;
+
+// Swap the cached copy of a goal for the one the server returned
+const replaceCachedGoal = (qc: QueryClient, id: string, goal: Goal) =>
+  qc.setQueryData<Goal[]>(["goals"], (goals = []) => goals.map((g) => (g.id === id ? goal : g)));
+
 // React Query mutation hook for creating new goals
-// Automatically invalidates the goals cache on success
+// A placeholder goal is shown immediately and swapped for the stored goal once it is saved
 export function useCreateGoal() {
   const qc = useQueryClient(); // Get the query client instance
-  return useMutation<Goal, Error, GoalInput>({
-    mutationFn: postGoal, // Function to execute the mutation
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["goals"] }), // Refresh goals list on success
+  return useMutation<Goal, Error, GoalInput, GoalsSnapshot & { tempId: string }>({
+    mutationFn: (input) => createGoalOrQueue(() => postGoal(input), (tempId) => buildGoal(input, tempId)), // Queued while offline
+    onMutate: async (input) => {
+      const tempId = `optimistic-${Date.now()}`; // Never collides with stored IDs
+      const placeholder: Goal = { ...input, id: tempId, savedAmount: 0, createdAt: new Date().toISOString().split("T")[0], version: 1 };
+      const snapshot = await updateGoalsCache(qc, (goals) => [...goals, placeholder]);
+      return { ...snapshot, tempId };
+    },
+    onError: (_error, _input, context) => restoreGoalsCache(qc, context), // Drop the placeholder again
+    onSuccess: (goal, _input, context) => replaceCachedGoal(qc, context.tempId, goal),
+    onSettled: () => qc.invalidateQueries({ queryKey: ["goals"] }), // A refetch during the request may have dropped the placeholder
   });
 }
 
 // React Query mutation hook for updating existing goals
-// Automatically invalidates the goals cache on success
+// The edit is applied to the cache straight away and rolled back if the server rejects it
 export function useUpdateGoal() {
   const qc = useQueryClient(); // Get the query client instance
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<Goal> }) => patchGoal(id, data), // Function to execute the mutation
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["goals"] }), // Refresh goals list on success
+    onMutate: ({ id, data }) =>
+      updateGoalsCache(qc, (goals) => goals.map((g) => (g.id === id ? { ...g, ...data, version: bumpVersion(g) } : g))),
+    onError: (_error, _variables, context) => restoreGoalsCache(qc, context),
+    onSuccess: (goal, { id }) => replaceCachedGoal(qc, id, goal), // Keep whatever the server stored
+    onSettled: () => qc.invalidateQueries({ queryKey: ["goals"] }), // Reconcile in case a refetch landed mid-request
   });
 }
 
 // React Query mutation hook for deleting goals
-// Automatically invalidates the goals cache on success
+// The goal disappears immediately and comes back if the delete fails
 export function useDeleteGoal() {
   const qc = useQueryClient(); // Get the query client instance
   return useMutation({
     mutationFn: (id: string) => deleteGoalApi(id), // Function to execute the mutation
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["goals"] }), // Refresh goals list on success
-  });
-}
-
-// React Query mutation hook for making deposits to goals
-// Calculates new saved amount based on current value and deposit
-// Automatically invalidates the goals cache on success
-export function useDeposit() {
-  const qc = useQueryClient(); // Get the query client instance
-  return useMutation({
-    mutationFn: async ({ id, amount }: { id: string; amount: number }) => {
-      // Get current goals from cache to calculate new saved amount
-      const goals = qc.getQueryData<Goal[]>(["goals"]) || [];
-      const current = goals.find((g) => g.id === id);
-      // Calculate new saved amount ensuring it doesn't go below 0
-      const newSaved = Math.max(0, (current?.savedAmount ?? 0) + amount);
-      // Update the goal with the new saved amount
-      return patchGoal(id, { savedAmount: newSaved });
-    },
-    onSuccess: () => qc.invalidateQueries({ queryKey: ["goals"] }), // Refresh goals list on success
+    onMutate: (id) => updateGoalsCache(qc, (goals) => goals.filter((g) => g.id !== id)),
+    onError: (_error, _id, context) => restoreGoalsCache(qc, context),
+    onSuccess: () => qc.invalidateQueries({ queryKey: ["transactions"] }), // Its ledger entries are gone too
   });
 }
@@ -0,0 +1,28 @@
+// Shared HTTP helper for the API layer
+// Used by the REST repository (src/api/repository/rest.ts) to talk to the API server
+
+import { NetworkError, toApiError } from "./errors"; // Structured API errors
+
+// Generic HTTP client function for making API requests
+// Failures are thrown as ApiError subclasses; `resource` names the thing being fetched for 404 messages
+export async function http<T>(input: RequestInfo, init?: RequestInit, resource?: string): Promise<T> {
+  // Make the fetch request with JSON content type header
+  let res: Response;
+  try {
+    res = await fetch(input, {
+      headers: { "Content-Type": "application/json" },
+      ...init,
+    });
+  } catch (e) {
+    // fetch only rejects when the request never got a response
+    throw new NetworkError(e instanceof Error ? e.message : undefined);
+  }
+
+  // Handle error responses by throwing the matching error class
+  if (!res.ok) {
+    throw await toApiError(res, resource);
+  }
+
+  // Parse and return JSON response
+  return res.json();
+}
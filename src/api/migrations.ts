@@ -0,0 +1,61 @@
+// Upgrades stored data to the current schema before the app reads it
+// Runs the migrations from src/lib/migrations.ts against the store and records them in its meta document
+// Uses the store directly because the goals module waits on this one
+
+import { store } from "./repository"; // Configured storage backend
+import { EMPTY_META, getPendingMigrations, runMigrations } from "@/lib/migrations"; // Migration runner
+import type { Category } from "@/types/category"; // Category type definitions
+
+// Write only the entries a migration actually changed; migrations never add or remove goals or ledger entries
+async function persistChanged<T extends { id: string }>(before: T[], after: T[], replace: (id: string, item: T) => Promise<T>) {
+  for (const item of after) {
+    const prev = before.find((b) => b.id === item.id);
+    if (JSON.stringify(prev) !== JSON.stringify(item)) await replace(item.id, item);
+  }
+}
+
+// Write only the categories a migration actually added, changed or removed
+async function persistCategories(before: Category[], after: Category[]) {
+  for (const c of before) {
+    if (!after.some((a) => a.id === c.id)) await store.categories.remove(c.id);
+  }
+  for (const c of after) {
+    const prev = before.find((b) => b.id === c.id);
+    if (!prev) {
+      await store.categories.create(c);
+    } else if (JSON.stringify(prev) !== JSON.stringify(c)) {
+      await store.categories.replace(c.id, c);
+    }
+  }
+}
+
+export async function migrateStoredData() {
+  // A store without a meta document has never been migrated
+  const meta = { ...EMPTY_META, ...(await store.meta.read()) };
+  if (getPendingMigrations(meta).length === 0) return;
+
+  const [goals, categories, transactions] = await Promise.all([store.goals.list(), store.categories.list(), store.transactions.list()]);
+  const result = runMigrations({ goals, categories, transactions }, meta);
+
+  await persistChanged(goals, result.data.goals, (id, goal) => store.goals.replace(id, goal));
+  await persistChanged(transactions, result.data.transactions, (id, tx) => store.transactions.replace(id, tx));
+  await persistCategories(categories, result.data.categories);
+  await store.meta.write(result.meta);
+
+  if (result.flagged.length > 0) {
+    console.warn("Goals with impossible values:", result.flagged);
+  }
+}
+
+// Migrations run at most once per page load; every goals query waits for them
+let migrating: Promise<void> | null = null;
+
+export function ensureMigrated() {
+  if (!migrating) {
+    migrating = migrateStoredData().catch((e) => {
+      migrating = null; // Retry on the next query instead of caching the failure
+      throw e;
+    });
+  }
+  return migrating;
+}
@@ -0,0 +1,257 @@
+// Offline mode for the REST backend
+// The last goals loaded from the server are kept in IndexedDB so the dashboard still opens without it.
+// While the server is unreachable, new goals and deposits are queued (also in IndexedDB) and shown on top of
+// the cached goals; the queue is replayed in order once the server answers again. Changes the server rejects
+// during replay are reported as conflicts instead of being retried forever.
+
+import { useSyncExternalStore } from "react"; // Lets components subscribe to the sync state
+import { store, STORAGE_BACKEND } from "./repository"; // Configured storage backend
+import { ApiError, NetworkError, type ErrorCode } from "./errors"; // Structured API errors
+import { idbGet, idbSet } from "@/lib/idb"; // IndexedDB key-value helpers
+import type { DepositRequest } from "./repository"; // Deposit payload
+import { formatMoney, getGoalCurrency } from "@/lib/currency"; // Amounts in the conflict list
+import type { Goal } from "@/types/goal"; // TypeScript type definitions for Goal objects
+import type { Transaction } from "@/types/transaction"; // Ledger type definitions
+
+// Only the REST backend can lose its connection; the browser backends are always available
+export const OFFLINE_ENABLED = STORAGE_BACKEND === "rest";
+
+// A change made while offline, waiting to be sent
+export type QueuedMutation =
+  | { id: string; type: "create-goal"; goal: Goal; queuedAt: string } // goal.id is a temporary "offline-" ID
+  | { id: string; type: "deposit"; request: DepositRequest; queuedAt: string };
+
+// What a refused change was meant to do, worded by SyncStatus in the chosen language
+export type ConflictSubject =
+  | { type: "create-goal"; name: string }
+  | { type: "deposit"; amount: number; currency: string; goalName?: string }; // amount in minor units
+
+// A queued change the server refused when it was replayed
+export interface SyncConflict {
+  id: string;
+  description: string; // English summary, e.g. "Deposit of 50 to Car"; shown for conflicts saved without `subject`
+  subject?: ConflictSubject; // What the user tried to do
+  message: string; // Why the server refused it, in English
+  error?: ErrorCode; // Catalog code for `message`, when there is one
+  at: string; // ISO timestamp of the replay
+}
+
+export type SyncStatus = "online" | "offline" | "syncing";
+
+export interface SyncState {
+  status: SyncStatus;
+  queue: QueuedMutation[];
+  conflicts: SyncConflict[];
+}
+
+// Sync state, shared with React through useSyncState
+let state: SyncState = { status: "online", queue: [], conflicts: [] };
+const listeners = new Set<() => void>();
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// IndexedDB failures (private browsing, blocked storage) only cost the offline copy, never the action itself
+const persist = (key: string, value: unknown) =>
+  idbSet(key, value).catch((e) => console.warn(`Could not save ${key} for offline use:`, e));
+
+function saveQueue(queue: QueuedMutation[]) {
+  setState({ queue });
+  void persist("queue", queue);
+}
+
+function saveConflicts(conflicts: SyncConflict[]) {
+  setState({ conflicts });
+  void persist("conflicts", conflicts);
+}
+
+const markOnline = () => state.status === "offline" && setState({ status: "online" });
+const markOffline = () => state.status !== "offline" && setState({ status: "offline" });
+
+// Show queued changes on top of server (or cached) goals so they don't disappear before they are sent
+function applyQueue(goals: Goal[], queue: QueuedMutation[]) {
+  let result = goals;
+  for (const m of queue) {
+    if (m.type === "create-goal") {
+      result = [...result, m.goal];
+    } else {
+      const { goalId, amount } = m.request;
+      result = result.map((g) =>
+        g.id === goalId ? { ...g, savedAmount: g.savedAmount + amount, version: (g.version ?? 0) + 1 } : g,
+      );
+    }
+  }
+  return result;
+}
+
+// Load goals through `load`, falling back to the IndexedDB copy when the server can't be reached
+export async function withOfflineGoals(load: () => Promise<Goal[]>) {
+  if (!OFFLINE_ENABLED) return load();
+  try {
+    const goals = await load();
+    markOnline();
+    void persist("goals", goals);
+    if (state.queue.length > 0) void replayQueue(); // The server is back; send what was queued
+    return applyQueue(goals, state.queue);
+  } catch (e) {
+    const cached = e instanceof NetworkError ? await idbGet<Goal[]>("goals").catch(() => undefined) : undefined;
+    if (!cached) throw e;
+    markOffline();
+    return applyQueue(cached, state.queue);
+  }
+}
+
+// Run `send` against the server; when it can't be reached (or earlier changes are still queued,
+// which must go first) `queue` records the change for later instead
+async function sendOrQueue<T>(send: () => Promise<T>, queue: () => T): Promise<T> {
+  if (!OFFLINE_ENABLED) return send();
+  if (state.queue.length > 0) {
+    const queued = queue();
+    if (state.status !== "offline") void replayQueue();
+    return queued;
+  }
+  try {
+    const result = await send();
+    markOnline();
+    return result;
+  } catch (e) {
+    if (!(e instanceof NetworkError)) throw e;
+    markOffline();
+    return queue();
+  }
+}
+
+const queuedId = () => `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Goals and ledger entries created while offline carry a temporary ID until they are sent
+export const isQueuedId = (id: string) => id.startsWith("offline-");
+
+// Create a goal, or queue it with a temporary ID while offline
+// `build` makes the goal that is shown until the server has assigned the real one
+export function createGoalOrQueue(send: () => Promise<Goal>, build: (tempId: string) => Goal) {
+  return sendOrQueue(send, () => {
+    const goal = build(queuedId());
+    saveQueue([...state.queue, { id: queuedId(), type: "create-goal", goal, queuedAt: new Date().toISOString() }]);
+    return goal;
+  });
+}
+
+// Record a deposit, or queue it while offline; the returned entry stands in for the one the server will create
+export function depositOrQueue(request: DepositRequest) {
+  return sendOrQueue(
+    () => store.deposit(request).then((result) => result.transaction),
+    (): Transaction => {
+      const date = request.date ?? new Date().toISOString().split("T")[0]; // Current date in YYYY-MM-DD format
+      const queued = { ...request, date };
+      saveQueue([...state.queue, { id: queuedId(), type: "deposit", request: queued, queuedAt: new Date().toISOString() }]);
+      return { id: queuedId(), goalId: request.goalId, amount: request.amount, date, note: request.note ?? "", type: "deposit" };
+    },
+  );
+}
+
+const subjectOf = (m: QueuedMutation, goals: Goal[]): ConflictSubject => {
+  if (m.type === "create-goal") return { type: "create-goal", name: m.goal.name };
+  const goal = goals.find((g) => g.id === m.request.goalId);
+  return { type: "deposit", amount: m.request.amount, currency: getGoalCurrency(goal ?? {}), goalName: goal?.name };
+};
+
+const describe = (subject: ConflictSubject) => {
+  if (subject.type === "create-goal") return `New goal "${subject.name}"`;
+  return `Deposit of ${formatMoney(subject.amount, subject.currency)} to ${subject.goalName ? `"${subject.goalName}"` : "a goal"}`;
+};
+
+let replaying: Promise<void> | null = null;
+const syncedListeners = new Set<() => void>();
+
+// Send queued changes in the order they were made
+// Stops (keeping the rest queued) as soon as the server is unreachable again
+export function replayQueue() {
+  if (!replaying) {
+    replaying = replay().finally(() => (replaying = null));
+  }
+  return replaying;
+}
+
+async function replay() {
+  if (state.queue.length === 0) return;
+  setState({ status: "syncing" });
+  const knownGoals = applyQueue((await idbGet<Goal[]>("goals").catch(() => undefined)) ?? [], state.queue);
+  let settled = 0; // Changes sent or rejected during this run
+
+  while (state.queue.length > 0) {
+    const [next] = state.queue;
+    try {
+      if (next.type === "create-goal") {
+        const saved = await store.goals.create({ ...next.goal, id: Date.now().toString() });
+        // Point queued deposits at the real goal; nobody else can have touched it, so they skip the version check
+        setState({
+          queue: state.queue.map((m) =>
+            m.type === "deposit" && m.request.goalId === next.goal.id
+              ? { ...m, request: { ...m.request, goalId: saved.id, version: undefined } }
+              : m,
+          ),
+        });
+      } else {
+        await store.deposit(next.request);
+      }
+    } catch (e) {
+      if (e instanceof NetworkError) {
+        setState({ status: "offline" });
+        break;
+      }
+      const subject = subjectOf(next, knownGoals);
+      const conflict: SyncConflict = {
+        id: next.id,
+        description: describe(subject),
+        subject,
+        message: e instanceof ApiError ? e.message : "The server rejected this change",
+        error: e instanceof ApiError ? (e.code ? { code: e.code, params: e.params } : undefined) : { code: "rejected" },
+        at: new Date().toISOString(),
+      };
+      saveConflicts([...state.conflicts, conflict]);
+    }
+    settled++;
+    // Changes queued while this one was in flight stay behind it
+    saveQueue(state.queue.filter((m) => m.id !== next.id));
+  }
+
+  if (state.status === "syncing") setState({ status: "online" });
+  if (settled > 0) syncedListeners.forEach((listener) => listener());
+}
+
+// Drop a conflict once the user has seen it
+export function dismissConflict(id: string) {
+  saveConflicts(state.conflicts.filter((c) => c.id !== id));
+}
+
+// Restore the queue from IndexedDB and replay it whenever the browser reports a connection
+// `onSynced` runs after a replay sent something so cached queries can be refreshed
+export function startOfflineSync(onSynced: () => void) {
+  if (!OFFLINE_ENABLED) return;
+  syncedListeners.add(onSynced);
+
+  Promise.all([idbGet<QueuedMutation[]>("queue"), idbGet<SyncConflict[]>("conflicts")])
+    .then(([queue = [], conflicts = []]) => {
+      setState({ queue, conflicts });
+      if (queue.length > 0) void replayQueue();
+    })
+    .catch((e) => console.warn("Offline queue unavailable:", e));
+
+  window.addEventListener("online", () => void replayQueue());
+  // The "online" event only covers this device's connection, so also retry while the server is down
+  window.setInterval(() => {
+    if (state.queue.length > 0) void replayQueue();
+  }, 30_000);
+}
+
+// React hook for the current sync status, queued changes and conflicts
+export function useSyncState() {
+  return useSyncExternalStore(subscribe, () => state);
+}
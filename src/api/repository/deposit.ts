@@ -0,0 +1,30 @@
+// Deposit operation for stores that keep their data in this process (memory, localStorage, the API server)
+// Nothing else runs between the balance read and the two writes, so the deposit can't interleave with another write
+
+import { ValidationError } from "../errors";
+import { amountNotPositive } from "./transfer";
+import { goalConflict } from "./versioned";
+import type { DepositRequest, DepositResult, GoalRepository, Repository } from "./types";
+import type { Transaction } from "@/types/transaction";
+
+export function createDeposit(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async ({ goalId, amount, note = "", date, version }: DepositRequest): Promise<DepositResult> => {
+    if (!(amount > 0)) throw amountNotPositive("Deposit amount must be positive");
+
+    const goal = await goals.get(goalId);
+    if (version !== undefined && goal.version !== undefined && goal.version !== version) {
+      throw goalConflict(`Expected version ${version}, found ${goal.version}`);
+    }
+
+    const transaction = await transactions.create({
+      id: crypto.randomUUID(), // Same random IDs as the API server, so writes in the same millisecond never collide
+      goalId,
+      amount,
+      date: date ?? new Date().toISOString().split("T")[0], // Current date in YYYY-MM-DD format
+      note: note.trim(),
+      type: "deposit",
+    });
+    const updated = await goals.update(goalId, { savedAmount: goal.savedAmount + amount, version: goal.version });
+    return { goal: updated, transaction };
+  };
+}
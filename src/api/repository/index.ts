@@ -0,0 +1,31 @@
+// Picks the storage backend for the whole app
+// VITE_STORAGE selects the implementation (rest, local or memory; rest by default)
+// and VITE_API_URL points the REST backend at the API server (`npm run server`, port 3000 by default)
+
+import seed from "../../../db.json"; // Demo data for the browser backends
+import { createLocalStore } from "./local";
+import { createMemoryStore } from "./memory";
+import { createRestStore } from "./rest";
+import type { DataStore, Snapshot, StorageBackend } from "./types";
+
+export const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3000";
+
+export const STORAGE_BACKEND: StorageBackend = import.meta.env.VITE_STORAGE || "rest";
+
+function createStore(backend: StorageBackend): DataStore {
+  switch (backend) {
+    case "local":
+      return createLocalStore(seed as Snapshot);
+    case "memory":
+      return createMemoryStore(seed as Snapshot);
+    case "rest":
+      return createRestStore(API_URL);
+    default:
+      throw new Error(`Unknown VITE_STORAGE backend: ${backend}`);
+  }
+}
+
+// Single store shared by every API module
+export const store = createStore(STORAGE_BACKEND);
+
+export type { DataStore, DepositRequest, DepositResult, Document, Filter, GoalRepository, Repository, TransferResult } from "./types";
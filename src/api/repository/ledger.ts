@@ -0,0 +1,127 @@
+// Ledger entry operations for stores that keep their data in this process (memory, localStorage, the API server)
+// Like deposits (deposit.ts) and transfers (transfer.ts), each one checks everything before its first write and
+// writes the entry and the goal's new saved amount together, so the ledger and savedAmount never drift apart
+
+import { ConflictError } from "../errors";
+import { getSignedAmount, isPending, isTransfer } from "../../types/transaction";
+import { goalConflict } from "./versioned";
+import { amountNotPositive, insufficientFunds } from "./transfer";
+import type { EntryChange, GoalRepository, LedgerResult, Repository, WithdrawalRequest } from "./types";
+import type { Goal } from "@/types/goal";
+import type { Transaction } from "@/types/transaction";
+
+// Reject a change made against a goal revision that has since moved on
+const assertVersion = (goal: Goal, version?: number) => {
+  if (version !== undefined && goal.version !== undefined && goal.version !== version) {
+    throw goalConflict(`Expected version ${version}, found ${goal.version}`);
+  }
+};
+
+// Raised when a pending contribution was confirmed or dismissed elsewhere in the meantime
+const alreadySettled = () =>
+  new ConflictError("This contribution was already confirmed or dismissed on another device", undefined, { code: "already-settled" });
+
+// Raised when a goal with transfer legs is deleted
+const hasTransfers = () =>
+  new ConflictError(
+    "This goal has transfers to or from other goals; delete those transfers first so the other goals stay balanced",
+    undefined,
+    { code: "goal-has-transfers" },
+  );
+
+// Raised when a transfer leg is changed on its own
+const transferLeg = () =>
+  new ConflictError("Transfers can't be changed one leg at a time; delete the transfer instead", undefined, { code: "transfer-leg" });
+
+// Take money out of a goal after checking it holds enough
+export function createWithdrawal(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async ({ goalId, amount, reason, note = "", date, version }: WithdrawalRequest): Promise<LedgerResult> => {
+    if (!(amount > 0)) throw amountNotPositive("Withdrawal amount must be positive");
+
+    const goal = await goals.get(goalId);
+    assertVersion(goal, version);
+    if (goal.savedAmount < amount) throw insufficientFunds();
+
+    const transaction = await transactions.create({
+      id: crypto.randomUUID(),
+      goalId,
+      amount,
+      date: date ?? new Date().toISOString().split("T")[0], // Current date in YYYY-MM-DD format
+      note: note.trim(),
+      type: "withdrawal",
+      reason,
+    });
+    const updated = await goals.update(goalId, { savedAmount: goal.savedAmount - amount, version: goal.version });
+    return { goal: updated, transaction };
+  };
+}
+
+// Change an entry's amount or note and move the goal's saved amount by the difference
+export function createEntryEdit(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async (id: string, data: EntryChange): Promise<Transaction> => {
+    if (data.amount !== undefined && !(data.amount > 0)) throw amountNotPositive("Amount must be positive");
+
+    const tx = await transactions.get(id);
+    if (isTransfer(tx)) throw transferLeg();
+    const next = { ...tx, ...data, note: (data.note ?? tx.note).trim() };
+    const delta = getSignedAmount(next) - getSignedAmount(tx);
+    const goal = await goals.get(tx.goalId);
+    if (goal.savedAmount + delta < 0) throw insufficientFunds();
+
+    const updated = await transactions.update(id, { amount: next.amount, note: next.note });
+    if (delta !== 0) await goals.update(tx.goalId, { savedAmount: goal.savedAmount + delta, version: goal.version });
+    return updated;
+  };
+}
+
+// Delete an entry and take its effect back out of the goal
+// Transfer legs are only removed together with their transfer (see transfer.ts)
+export function createEntryRemoval(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async (id: string): Promise<void> => {
+    const tx = await transactions.get(id);
+    if (isTransfer(tx)) throw transferLeg();
+    const delta = -getSignedAmount(tx);
+    const goal = await goals.get(tx.goalId);
+    if (goal.savedAmount + delta < 0) throw insufficientFunds();
+
+    await transactions.remove(id);
+    if (delta !== 0) await goals.update(tx.goalId, { savedAmount: goal.savedAmount + delta, version: goal.version });
+  };
+}
+
+// Post a pending contribution and add it to its goal
+// An entry that is no longer pending is rejected, so confirming from two devices never counts it twice
+export function createConfirmation(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async (id: string): Promise<LedgerResult> => {
+    const tx = await transactions.get(id);
+    if (!isPending(tx)) throw alreadySettled();
+    const goal = await goals.get(tx.goalId);
+
+    const transaction = await transactions.update(id, { status: "posted" });
+    const updated = await goals.update(tx.goalId, { savedAmount: goal.savedAmount + tx.amount, version: goal.version });
+    return { goal: updated, transaction };
+  };
+}
+
+// Delete a pending contribution; it never touched the saved amount
+// Rejected once it has been confirmed, so a stale list can't remove a posted deposit
+export function createDismissal(transactions: Repository<Transaction>) {
+  return async (id: string): Promise<void> => {
+    const tx = await transactions.get(id);
+    if (!isPending(tx)) throw alreadySettled();
+    await transactions.remove(id);
+  };
+}
+
+// Delete a goal together with its ledger
+// Refused while the goal has transfer legs, since deleting one leg would leave the other goal's entry without its pair
+export function createGoalRemoval(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async (id: string): Promise<void> => {
+    await goals.get(id); // Not found before anything else is checked
+    const ledger = await transactions.list({ goalId: id });
+    if (ledger.some(isTransfer)) throw hasTransfers();
+
+    await goals.remove(id);
+    for (const tx of ledger) await transactions.remove(tx.id);
+  };
+}
@@ -0,0 +1,50 @@
+// Browser implementation of the repository interfaces backed by localStorage
+// Each collection is kept in memory and written back as a whole after every change
+
+import { createMemoryDocument, createMemoryRepository } from "./memory";
+import { createDeposit } from "./deposit";
+import { createTransfer, createTransferRemoval } from "./transfer";
+import { createConfirmation, createDismissal, createEntryEdit, createEntryRemoval, createGoalRemoval, createWithdrawal } from "./ledger";
+import { withVersionCheck } from "./versioned";
+import { RESOURCE_LABELS, type DataStore, type Snapshot } from "./types";
+import type { SchemaMeta } from "@/lib/migrations";
+import type { Settings } from "@/types/settings";
+
+const PREFIX = "smart-goal-planner";
+
+function load<T>(key: string, fallback: T): T {
+  const raw = localStorage.getItem(`${PREFIX}:${key}`);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+const save = (key: string) => (value: unknown) =>
+  localStorage.setItem(`${PREFIX}:${key}`, JSON.stringify(value));
+
+// `seed` is only used for collections that have never been saved in this browser
+// Goal writes are version checked here, as in the in-memory store
+export function createLocalStore(seed: Snapshot = {}): DataStore {
+  const goals = withVersionCheck(createMemoryRepository(load("goals", seed.goals ?? []), save("goals"), RESOURCE_LABELS.goals));
+  const transactions = createMemoryRepository(load("transactions", seed.transactions ?? []), save("transactions"), RESOURCE_LABELS.transactions);
+  return {
+    goals,
+    transactions,
+    categories: createMemoryRepository(load("categories", seed.categories ?? []), save("categories"), RESOURCE_LABELS.categories),
+    views: createMemoryRepository(load("views", seed.views ?? []), save("views"), RESOURCE_LABELS.views),
+    meta: createMemoryDocument<SchemaMeta>(load("meta", seed.meta), save("meta")),
+    settings: createMemoryDocument<Settings>(load("settings", seed.settings), save("settings")),
+    deposit: createDeposit(goals, transactions),
+    transfer: createTransfer(goals, transactions),
+    removeTransfer: createTransferRemoval(goals, transactions),
+    withdraw: createWithdrawal(goals, transactions),
+    editEntry: createEntryEdit(goals, transactions),
+    removeEntry: createEntryRemoval(goals, transactions),
+    removeGoal: createGoalRemoval(goals, transactions),
+    confirmEntry: createConfirmation(goals, transactions),
+    dismissEntry: createDismissal(transactions),
+  };
+}
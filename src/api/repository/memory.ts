@@ -0,0 +1,94 @@
+// In-memory implementation of the repository interfaces
+// Used for demos and as the building block of the localStorage backend
+
+import { ConflictError, NotFoundError } from "../errors";
+import { createDeposit } from "./deposit";
+import { createTransfer, createTransferRemoval } from "./transfer";
+import { createConfirmation, createDismissal, createEntryEdit, createEntryRemoval, createGoalRemoval, createWithdrawal } from "./ledger";
+import { withVersionCheck } from "./versioned";
+import { RESOURCE_LABELS, type DataStore, type Document, type Entity, type Filter, type Repository, type Snapshot } from "./types";
+
+// Callers get copies so cached objects can't be mutated behind the store's back
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const matches = <T>(item: T, filter?: Filter<T>) =>
+  Object.entries(filter ?? {}).every(([key, value]) => String(item[key as keyof T]) === String(value));
+
+// `onChange` is called after every write with the full collection; `resource` names it in errors
+export function createMemoryRepository<T extends Entity>(
+  seed: T[] = [],
+  onChange?: (items: T[]) => void,
+  resource?: string,
+): Repository<T> {
+  const items = new Map<string, T>(seed.map((item) => [item.id, clone(item)]));
+  const changed = () => onChange?.([...items.values()]);
+
+  const find = (id: string) => {
+    const item = items.get(id);
+    if (!item) throw new NotFoundError(resource, `Not found: ${id}`);
+    return item;
+  };
+
+  return {
+    list: async (filter) => [...items.values()].filter((item) => matches(item, filter)).map(clone),
+    get: async (id) => clone(find(id)),
+    create: async (item) => {
+      if (items.has(item.id)) throw new ConflictError(undefined, `Duplicate id: ${item.id}`);
+      items.set(item.id, clone(item));
+      changed();
+      return clone(item);
+    },
+    update: async (id, data) => {
+      const next = { ...find(id), ...clone(data), id };
+      items.set(id, next);
+      changed();
+      return clone(next);
+    },
+    replace: async (id, item) => {
+      find(id);
+      items.set(id, { ...clone(item), id });
+      changed();
+      return clone(item);
+    },
+    remove: async (id) => {
+      find(id);
+      items.delete(id);
+      changed();
+    },
+  };
+}
+
+export function createMemoryDocument<T>(seed?: T, onChange?: (value: T) => void): Document<T> {
+  let value: T | undefined = seed === undefined ? undefined : clone(seed);
+  return {
+    read: async () => (value === undefined ? undefined : clone(value)),
+    write: async (next) => {
+      value = clone(next);
+      onChange?.(clone(next));
+      return clone(next);
+    },
+  };
+}
+
+// Goal writes are version checked here because nothing else would check them
+export function createMemoryStore(seed: Snapshot = {}): DataStore {
+  const goals = withVersionCheck(createMemoryRepository(seed.goals, undefined, RESOURCE_LABELS.goals));
+  const transactions = createMemoryRepository(seed.transactions, undefined, RESOURCE_LABELS.transactions);
+  return {
+    goals,
+    transactions,
+    categories: createMemoryRepository(seed.categories, undefined, RESOURCE_LABELS.categories),
+    views: createMemoryRepository(seed.views, undefined, RESOURCE_LABELS.views),
+    meta: createMemoryDocument(seed.meta),
+    settings: createMemoryDocument(seed.settings),
+    deposit: createDeposit(goals, transactions),
+    transfer: createTransfer(goals, transactions),
+    removeTransfer: createTransferRemoval(goals, transactions),
+    withdraw: createWithdrawal(goals, transactions),
+    editEntry: createEntryEdit(goals, transactions),
+    removeEntry: createEntryRemoval(goals, transactions),
+    removeGoal: createGoalRemoval(goals, transactions),
+    confirmEntry: createConfirmation(goals, transactions),
+    dismissEntry: createDismissal(transactions),
+  };
+}
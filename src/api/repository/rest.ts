@@ -0,0 +1,80 @@
+// REST implementation of the repository interfaces
+// Talks to the API server in server/ using json-server style routes: /collection, /collection/:id and ?field=value filters.
+// The server validates payloads, assigns IDs and checks goal versions, so nothing is wrapped here.
+
+import { http } from "../http";
+import { NotFoundError } from "../errors";
+import { RESOURCE_LABELS, type DataStore, type DepositResult, type Document, type Entity, type Filter, type LedgerResult, type Repository, type TransferResult } from "./types";
+import type { Transaction } from "@/types/transaction";
+
+const toQuery = <T>(filter?: Filter<T>) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter ?? {})) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+// `resource` is the singular name used in error messages, e.g. "Goal no longer exists"
+export function createRestRepository<T extends Entity>(url: string, resource?: string): Repository<T> {
+  return {
+    list: (filter) => http<T[]>(`${url}${toQuery(filter)}`),
+    get: (id) => http<T>(`${url}/${id}`, undefined, resource),
+    create: (item) => http<T>(url, { method: "POST", body: JSON.stringify(item) }, resource),
+    update: (id, data) => http<T>(`${url}/${id}`, { method: "PATCH", body: JSON.stringify(data) }, resource),
+    replace: (id, item) => http<T>(`${url}/${id}`, { method: "PUT", body: JSON.stringify(item) }, resource),
+    remove: async (id) => {
+      await http<unknown>(`${url}/${id}`, { method: "DELETE" }, resource);
+    },
+  };
+}
+
+export function createRestDocument<T>(url: string): Document<T> {
+  return {
+    // A missing resource simply means nothing has been written yet
+    read: () =>
+      http<T>(url).catch((e) => {
+        if (e instanceof NotFoundError) return undefined;
+        throw e;
+      }),
+    write: (value) => http<T>(url, { method: "PUT", body: JSON.stringify(value) }),
+  };
+}
+
+export function createRestStore(baseUrl: string): DataStore {
+  return {
+    goals: createRestRepository(`${baseUrl}/goals`, RESOURCE_LABELS.goals),
+    transactions: createRestRepository(`${baseUrl}/transactions`, RESOURCE_LABELS.transactions),
+    categories: createRestRepository(`${baseUrl}/categories`, RESOURCE_LABELS.categories),
+    views: createRestRepository(`${baseUrl}/views`, RESOURCE_LABELS.views),
+    meta: createRestDocument(`${baseUrl}/meta`),
+    settings: createRestDocument(`${baseUrl}/settings`),
+    // The server writes the ledger entry and the new balance in one step
+    deposit: ({ goalId, ...body }) =>
+      http<DepositResult>(`${baseUrl}/goals/${goalId}/deposits`, { method: "POST", body: JSON.stringify(body) }, RESOURCE_LABELS.goals),
+    // Likewise both legs of a transfer and both balances
+    transfer: (body) => http<TransferResult>(`${baseUrl}/transfers`, { method: "POST", body: JSON.stringify(body) }, RESOURCE_LABELS.goals),
+    removeTransfer: async (transferId) => {
+      await http<unknown>(`${baseUrl}/transfers/${transferId}`, { method: "DELETE" }, "Transfer");
+    },
+    withdraw: ({ goalId, ...body }) =>
+      http<LedgerResult>(`${baseUrl}/goals/${goalId}/withdrawals`, { method: "POST", body: JSON.stringify(body) }, RESOURCE_LABELS.goals),
+    // The server runs PATCH and DELETE on ledger entries through the same balance-checked operations
+    editEntry: (id, change) =>
+      http<Transaction>(`${baseUrl}/transactions/${id}`, { method: "PATCH", body: JSON.stringify(change) }, RESOURCE_LABELS.transactions),
+    removeEntry: async (id) => {
+      await http<unknown>(`${baseUrl}/transactions/${id}`, { method: "DELETE" }, RESOURCE_LABELS.transactions);
+    },
+    // The server deletes the goal's ledger with it, or refuses while it has transfer legs
+    removeGoal: async (id) => {
+      await http<unknown>(`${baseUrl}/goals/${id}`, { method: "DELETE" }, RESOURCE_LABELS.goals);
+    },
+    // Status and balance change together on the server, and only while the entry is pending
+    confirmEntry: (id) =>
+      http<LedgerResult>(`${baseUrl}/transactions/${id}/confirm`, { method: "POST" }, RESOURCE_LABELS.transactions),
+    dismissEntry: async (id) => {
+      await http<unknown>(`${baseUrl}/transactions/${id}/dismiss`, { method: "POST" }, RESOURCE_LABELS.transactions);
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// Transfer operations for stores that keep their data in this process (memory, localStorage, the API server)
+// As with deposits (see deposit.ts), every check runs before the first write and nothing else runs in between,
+// so both legs and both saved amounts are written together
+
+import { NotFoundError, ValidationError } from "../errors";
+import { getSignedAmount } from "../../types/transaction";
+import type { GoalRepository, Repository, TransferResult } from "./types";
+import type { Transaction, TransferInput } from "@/types/transaction";
+
+// Raised whenever a change would take a goal's saved amount below zero
+export const insufficientFunds = () =>
+  new ValidationError("Not enough saved in this goal to cover this change", { amount: "Exceeds the saved amount" }, undefined, {
+    code: "insufficient-funds",
+  });
+
+// Raised for a zero or negative amount on any ledger operation
+export const amountNotPositive = (message: string) =>
+  new ValidationError(message, { amount: "Must be positive" }, undefined, { code: "amount-not-positive" });
+
+// Move money from one goal to another: a linked pair of ledger entries and both new saved amounts
+// Between goals in different currencies each leg is in its own goal's currency (`receivedAmount` on the way in)
+export function createTransfer(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async ({ fromGoalId, toGoalId, amount, receivedAmount = amount, note = "" }: TransferInput): Promise<TransferResult> => {
+    if (fromGoalId === toGoalId) {
+      throw new ValidationError("Choose a different goal to transfer to", { toGoalId: "Choose a different goal" }, undefined, { code: "same-goal-transfer" });
+    }
+    if (!(amount > 0) || !(receivedAmount > 0)) throw amountNotPositive("Transfer amount must be positive");
+
+    const [from, to] = await Promise.all([goals.get(fromGoalId), goals.get(toGoalId)]);
+    if (from.savedAmount < amount) throw insufficientFunds();
+
+    const transferId = crypto.randomUUID(); // Random like every other ID the stores assign
+    const leg = { date: new Date().toISOString().split("T")[0], note: note.trim(), transferId }; // Current date in YYYY-MM-DD format
+    const legs: [Transaction, Transaction] = [
+      await transactions.create({ ...leg, id: crypto.randomUUID(), goalId: fromGoalId, amount, type: "transfer-out", counterpartGoalId: toGoalId }),
+      await transactions.create({ ...leg, id: crypto.randomUUID(), goalId: toGoalId, amount: receivedAmount, type: "transfer-in", counterpartGoalId: fromGoalId }),
+    ];
+    const updatedFrom = await goals.update(fromGoalId, { savedAmount: from.savedAmount - amount, version: from.version });
+    const updatedTo = await goals.update(toGoalId, { savedAmount: to.savedAmount + receivedAmount, version: to.version });
+    return { transferId, goals: [updatedFrom, updatedTo], transactions: legs };
+  };
+}
+
+// Remove both legs of a transfer and reverse its effect on both goals
+// Rejected before anything is removed if either goal no longer holds the amount it received
+export function createTransferRemoval(goals: GoalRepository, transactions: Repository<Transaction>) {
+  return async (transferId: string): Promise<void> => {
+    const legs = await transactions.list({ transferId });
+    if (legs.length === 0) throw new NotFoundError("Transfer", `No transfer ${transferId}`);
+
+    const owners = await Promise.all(legs.map((leg) => goals.get(leg.goalId)));
+    if (legs.some((leg, i) => owners[i].savedAmount - getSignedAmount(leg) < 0)) throw insufficientFunds();
+
+    for (const [i, leg] of legs.entries()) {
+      await transactions.remove(leg.id);
+      await goals.update(leg.goalId, { savedAmount: owners[i].savedAmount - getSignedAmount(leg), version: owners[i].version });
+    }
+  };
+}
@@ -0,0 +1,115 @@
+// Storage abstraction for the API layer
+// The React Query hooks only talk to these interfaces; src/api/repository/index.ts
+// decides which implementation (REST, localStorage, in-memory) backs them
+
+import type { Goal } from "@/types/goal";
+import type { Transaction, TransferInput, WithdrawalReason } from "@/types/transaction";
+import type { Category } from "@/types/category";
+import type { SavedView } from "@/types/view";
+import type { Settings } from "@/types/settings";
+import type { SchemaMeta } from "@/lib/migrations";
+
+export interface Entity {
+  id: string;
+}
+
+// Field equality filter, e.g. { goalId: "1" } or { status: "pending" }
+export type Filter<T> = Partial<Record<keyof T, string | number | boolean>>;
+
+// CRUD operations on one collection
+export interface Repository<T extends Entity> {
+  list(filter?: Filter<T>): Promise<T[]>;
+  get(id: string): Promise<T>;
+  create(item: T): Promise<T>;
+  update(id: string, data: Partial<T>): Promise<T>;
+  replace(id: string, item: T): Promise<T>;
+  remove(id: string): Promise<void>;
+}
+
+// A single stored document, e.g. /meta or /settings
+export interface Document<T> {
+  read(): Promise<T | undefined>;
+  write(value: T): Promise<T>;
+}
+
+export type GoalRepository = Repository<Goal>;
+
+// A deposit recorded in one step: the ledger entry and the goal's new saved amount
+export interface DepositRequest {
+  goalId: string;
+  amount: number;
+  note?: string;
+  date?: string; // YYYY-MM-DD, today when missing
+  version?: number; // goal revision the deposit is based on; stale deposits are rejected
+}
+
+// A ledger entry written together with its goal's new saved amount (deposits, withdrawals, confirmations)
+export interface LedgerResult {
+  goal: Goal;
+  transaction: Transaction;
+}
+
+export type DepositResult = LedgerResult;
+
+// A withdrawal recorded in one step; rejected when the goal doesn't hold the amount
+export interface WithdrawalRequest {
+  goalId: string;
+  amount: number;
+  reason: WithdrawalReason;
+  note?: string;
+  date?: string; // YYYY-MM-DD, today when missing
+  version?: number; // goal revision the withdrawal is based on; stale withdrawals are rejected
+}
+
+// Fields of a deposit or withdrawal that can be corrected after the fact
+export interface EntryChange {
+  amount?: number;
+  note?: string;
+}
+
+
+// A transfer recorded in one step: both legs and both goals' new saved amounts, source goal first
+export interface TransferResult {
+  transferId: string;
+  goals: [Goal, Goal];
+  transactions: [Transaction, Transaction];
+}
+
+// Everything the app persists
+export interface DataStore {
+  goals: GoalRepository;
+  transactions: Repository<Transaction>;
+  categories: Repository<Category>;
+  views: Repository<SavedView>;
+  meta: Document<SchemaMeta>;
+  settings: Document<Settings>;
+  deposit(request: DepositRequest): Promise<DepositResult>;
+  transfer(request: TransferInput): Promise<TransferResult>;
+  removeTransfer(transferId: string): Promise<void>;
+  withdraw(request: WithdrawalRequest): Promise<LedgerResult>;
+  editEntry(id: string, change: EntryChange): Promise<Transaction>; // transfer legs can't be edited
+  removeEntry(id: string): Promise<void>; // transfer legs go through removeTransfer
+  removeGoal(id: string): Promise<void>; // with its ledger; refused while the goal has transfer legs
+  confirmEntry(id: string): Promise<LedgerResult>; // pending contributions only
+  dismissEntry(id: string): Promise<void>; // pending contributions only
+}
+
+// Singular names used in "Goal no longer exists" style errors
+export const RESOURCE_LABELS = {
+  goals: "Goal",
+  transactions: "Transaction",
+  categories: "Category",
+  views: "Saved view",
+} as const;
+
+// Initial contents for the browser backends (db.json has the same shape)
+export interface Snapshot {
+  goals?: Goal[];
+  transactions?: Transaction[];
+  categories?: Category[];
+  views?: SavedView[];
+  meta?: SchemaMeta;
+  settings?: Settings;
+}
+
+export type StorageBackend = "rest" | "local" | "memory";
@@ -0,0 +1,31 @@
+// Optimistic concurrency for goals
+// Wraps any goal repository so every write bumps the goal's `version`, and a write that names
+// the version it was based on is rejected with a ConflictError when the stored goal has moved on.
+// Applied by every store that owns its data (memory, localStorage and the API server in server/);
+// the check is a read right before the write, which the server makes safe by handling one request at a time.
+
+import { ConflictError } from "../errors";
+import type { GoalRepository } from "./types";
+
+// Raised when a write names a goal version that is no longer the stored one
+export const goalConflict = (detail: string) =>
+  new ConflictError("This goal was changed on another device", detail, { code: "goal-changed" });
+
+export function withVersionCheck(repo: GoalRepository): GoalRepository {
+  // Returns the version the write should store, or throws when `expected` is stale
+  const nextVersion = async (id: string, expected?: number) => {
+    const current = await repo.get(id);
+    // Goals saved before revisions existed have nothing to compare against
+    if (expected !== undefined && current.version !== undefined && current.version !== expected) {
+      throw goalConflict(`Expected version ${expected}, found ${current.version}`);
+    }
+    return (current.version ?? 0) + 1;
+  };
+
+  return {
+    ...repo,
+    create: (goal) => repo.create({ ...goal, version: goal.version ?? 1 }),
+    update: async (id, data) => repo.update(id, { ...data, version: await nextVersion(id, data.version) }),
+    replace: async (id, goal) => repo.replace(id, { ...goal, version: await nextVersion(id, goal.version) }),
+  };
+}
@@ -0,0 +1,37 @@
+// API layer for the user's display settings
+// Settings are a single /settings document; until one is saved (or while it can't be loaded) the defaults apply
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"; // React Query for server state management
+import { store } from "./repository"; // Configured storage backend
+import { DEFAULT_SETTINGS, Settings } from "@/types/settings"; // Settings type and defaults
+
+// Fetch the stored settings, filling in any field that was never saved
+export const fetchSettings = async (): Promise<Settings> => ({ ...DEFAULT_SETTINGS, ...(await store.settings.read()) });
+
+// Change some settings; the whole document is written so it is always complete
+export async function updateSettings(data: Partial<Settings>) {
+  const current = await fetchSettings();
+  return store.settings.write({ ...current, ...data });
+}
+
+// React Query hook for the display settings
+export function useSettings() {
+  return useQuery({ queryKey: ["settings"], queryFn: fetchSettings });
+}
+
+// React Query mutation hook for changing display settings
+// The new values apply right away and are rolled back if saving fails
+export function useUpdateSettings() {
+  const qc = useQueryClient(); // Get the query client instance
+  return useMutation({
+    mutationFn: (data: Partial<Settings>) => updateSettings(data),
+    onMutate: async (data) => {
+      await qc.cancelQueries({ queryKey: ["settings"] });
+      const previous = qc.getQueryData<Settings>(["settings"]);
+      qc.setQueryData<Settings>(["settings"], { ...DEFAULT_SETTINGS, ...previous, ...data });
+      return { previous };
+    },
+    onError: (_error, _data, context) => qc.setQueryData(["settings"], context?.previous),
+    onSettled: () => qc.invalidateQueries({ queryKey: ["settings"] }),
+  });
+}
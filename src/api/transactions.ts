@@ -0,0 +1,166 @@
+// API layer for the transaction ledger
+// Every deposit, withdrawal and transfer leg is stored as its own record in the /transactions collection
+// and the owning goal's savedAmount is adjusted by the same amount, so the two never drift apart
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"; // React Query for server state management
+import { store } from "./repository"; // Configured storage backend
+import { depositOrQueue } from "./offline"; // Deposits are queued while offline
+import { bumpVersion, restoreGoalsCache, updateGoalsCache } from "./goals"; // Optimistic cache helpers
+import { Transaction, TransactionInput, TransferInput, WithdrawalReason, isTransfer } from "@/types/transaction"; // Ledger type definitions
+
+// Fetch ledger entries, optionally narrowed down to a single goal
+export const fetchTransactions = (goalId?: string) =>
+  store.transactions.list(goalId ? { goalId } : undefined);
+
+// Create a ledger entry that doesn't count yet (a pending contribution)
+// Entries that move the saved amount go through the store operations below; the API server rejects them here.
+// `id` can be supplied when several entries are written in the same tick;
+// the API server replaces it with its own, so always use the ID of the returned entry
+export const postTransaction = (input: TransactionInput, type: Transaction["type"], id = Date.now().toString()) => {
+  const body: Transaction = {
+    id, // Same timestamp based IDs as goals
+    goalId: input.goalId,
+    amount: input.amount,
+    date: input.date ?? new Date().toISOString().split("T")[0], // Current date in YYYY-MM-DD format
+    note: input.note?.trim() ?? "",
+    type,
+    ...(type === "withdrawal" ? { reason: input.reason ?? "other" } : {}),
+    ...(input.transferId ? { transferId: input.transferId, counterpartGoalId: input.counterpartGoalId } : {}),
+    ...(input.status ? { status: input.status } : {}),
+    ...(input.source ? { source: input.source } : {}),
+  };
+  return store.transactions.create(body);
+};
+
+// Fetch entries awaiting confirmation across all goals
+export const fetchPendingTransactions = () => store.transactions.list({ status: "pending" });
+
+// Record a deposit: the store writes the ledger entry and the goal's new saved amount in one step
+// `version` is the goal revision the deposit was made against; a stale one is rejected with a ConflictError.
+// Without a connection the deposit is queued and sent later (see src/api/offline.ts)
+export async function recordDeposit(input: TransactionInput, version?: number) {
+  return depositOrQueue({ goalId: input.goalId, amount: input.amount, note: input.note, date: input.date, version });
+}
+
+// Record a withdrawal the same way; the store rejects it if the goal doesn't hold the amount
+export async function recordWithdrawal(input: TransactionInput, version?: number) {
+  const { transaction } = await store.withdraw({
+    goalId: input.goalId,
+    amount: input.amount,
+    reason: input.reason ?? "other",
+    note: input.note,
+    date: input.date,
+    version,
+  });
+  return transaction;
+}
+
+// Move money from one goal to another as a single operation
+// The store writes the linked pair of ledger entries and both saved amounts together (POST /transfers on the API server),
+// so a dropped connection leaves either the whole transfer or none of it
+export async function transferBetweenGoals(input: TransferInput) {
+  return (await store.transfer(input)).transferId;
+}
+
+// Remove both legs of a transfer and reverse its effect on both goals, again in one store operation
+export const removeTransfer = (tx: Transaction) => store.removeTransfer(tx.transferId ?? tx.id);
+
+// Edit an existing entry; the store moves the goal's saved amount by the difference in the same step
+export const editTransaction = (tx: Transaction, data: Pick<Transaction, "amount" | "note">) => store.editEntry(tx.id, data);
+
+// Delete an entry and take its effect back out of the goal in one store operation
+// Transfer legs are never removed on their own, so both goals stay consistent
+export async function removeTransaction(tx: Transaction) {
+  if (isTransfer(tx)) return removeTransfer(tx);
+  await store.removeEntry(tx.id);
+}
+
+// React Query hook for a goal's ledger (or the whole ledger when no goal is given)
+// `enabled` lets dialogs defer the request until they are opened
+export function useTransactions(goalId?: string, enabled = true) {
+  return useQuery({ queryKey: ["transactions", goalId ?? "all"], queryFn: () => fetchTransactions(goalId), enabled });
+}
+
+// Ledger mutations touch both collections, so both caches are refreshed afterwards
+export function useInvalidateLedger() {
+  const qc = useQueryClient(); // Get the query client instance
+  return () => Promise.all([
+    qc.invalidateQueries({ queryKey: ["goals"] }),
+    qc.invalidateQueries({ queryKey: ["transactions"] }),
+  ]);
+}
+
+// React Query mutation hook for making deposits to goals
+// Creates a ledger entry and reconciles the goal's saved amount
+// The card shows the new amount right away; it is rolled back if the deposit fails
+// Pass the `version` of the goal the user saw so a deposit against stale data is rejected with a ConflictError
+export function useDeposit() {
+  const qc = useQueryClient(); // Get the query client instance
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: ({ id, amount, note, version }: { id: string; amount: number; note?: string; version?: number }) =>
+      recordDeposit({ goalId: id, amount, note }, version),
+    onMutate: ({ id, amount }) =>
+      updateGoalsCache(qc, (goals) =>
+        goals.map((g) => (g.id === id ? { ...g, savedAmount: g.savedAmount + amount, version: bumpVersion(g) } : g)),
+      ),
+    onError: (_error, _variables, context) => restoreGoalsCache(qc, context),
+    onSettled: invalidate, // Reconcile with the stored balance and ledger in the background
+  });
+}
+
+// React Query mutation hook for withdrawing money from goals
+// Rejected when the amount exceeds the goal's saved amount
+// Like deposits, the card shows the new amount right away and is rolled back if the withdrawal fails
+export function useWithdraw() {
+  const qc = useQueryClient(); // Get the query client instance
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: ({ id, amount, reason, note }: { id: string; amount: number; reason: WithdrawalReason; note?: string }) =>
+      recordWithdrawal({ goalId: id, amount, reason, note }),
+    onMutate: ({ id, amount }) =>
+      updateGoalsCache(qc, (goals) =>
+        goals.map((g) => (g.id === id ? { ...g, savedAmount: g.savedAmount - amount, version: bumpVersion(g) } : g)),
+      ),
+    onError: (_error, _variables, context) => restoreGoalsCache(qc, context),
+    onSettled: invalidate, // Reconcile with the stored balances and ledger in the background
+  });
+}
+
+// React Query mutation hook for moving money between goals
+// Both cards move right away (the destination by the amount it receives) and are rolled back together on failure
+export function useTransfer() {
+  const qc = useQueryClient(); // Get the query client instance
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (input: TransferInput) => transferBetweenGoals(input),
+    onMutate: ({ fromGoalId, toGoalId, amount, receivedAmount = amount }) =>
+      updateGoalsCache(qc, (goals) =>
+        goals.map((g) => {
+          if (g.id === fromGoalId) return { ...g, savedAmount: g.savedAmount - amount, version: bumpVersion(g) };
+          if (g.id === toGoalId) return { ...g, savedAmount: g.savedAmount + receivedAmount, version: bumpVersion(g) };
+          return g;
+        }),
+      ),
+    onError: (_error, _variables, context) => restoreGoalsCache(qc, context),
+    onSettled: invalidate, // Reconcile with the stored balances and ledger in the background
+  });
+}
+
+// React Query mutation hook for editing a ledger entry
+export function useUpdateTransaction() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: ({ tx, data }: { tx: Transaction; data: Pick<Transaction, "amount" | "note"> }) => editTransaction(tx, data),
+    onSuccess: invalidate,
+  });
+}
+
+// React Query mutation hook for deleting a ledger entry
+export function useDeleteTransaction() {
+  const invalidate = useInvalidateLedger();
+  return useMutation({
+    mutationFn: (tx: Transaction) => removeTransaction(tx),
+    onSuccess: invalidate,
+  });
+}
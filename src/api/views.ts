@@ -0,0 +1,105 @@
+// API layer for saved dashboard views
+// Views live in their own /views collection so everyone using the same backend sees them;
+// at most one of them is marked as the default
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"; // React Query for server state management
+import { store } from "./repository"; // Configured storage backend
+import { ValidationError } from "./errors"; // Structured API errors
+import { SavedView, SavedViewInput, sameViewName } from "@/types/view"; // Saved view type definitions
+
+// Fetch all saved views
+export const fetchViews = () => store.views.list();
+
+// Create a new saved view
+export const postView = (input: SavedViewInput) => {
+  const body: SavedView = { id: Date.now().toString(), ...input, name: input.name.trim() };
+  return store.views.create(body);
+};
+
+// Partially update a saved view
+export const patchView = (id: string, data: Partial<SavedView>) => store.views.update(id, data);
+
+// Delete a saved view by ID
+export const deleteViewApi = (id: string) => store.views.remove(id);
+
+// Reject names that would collide with another view
+async function assertUniqueName(name: string, exceptId?: string) {
+  const views = await fetchViews();
+  if (views.some((v) => v.id !== exceptId && sameViewName(v.name, name))) {
+    throw new ValidationError(`A view named "${name.trim()}" already exists`, { name: "Already in use" }, undefined, {
+      code: "view-exists",
+      params: { name: name.trim() },
+    });
+  }
+}
+
+// Make `id` the only default view, or clear the default when `id` is null
+export async function setDefaultView(id: string | null) {
+  const views = await fetchViews();
+  for (const view of views) {
+    const isDefault = view.id === id;
+    if (Boolean(view.isDefault) !== isDefault) await patchView(view.id, { isDefault });
+  }
+}
+
+// Create a view after checking the name is free; a new default replaces the previous one
+export async function createView(input: SavedViewInput) {
+  await assertUniqueName(input.name);
+  const view = await postView({ ...input, isDefault: false });
+  if (input.isDefault) await setDefaultView(view.id);
+  return view;
+}
+
+// Rename a view or replace its filters
+export async function updateView(view: SavedView, data: Partial<Pick<SavedView, "name" | "query">>) {
+  const name = data.name?.trim();
+  if (name !== undefined && !sameViewName(name, view.name)) await assertUniqueName(name, view.id);
+  return patchView(view.id, name === undefined ? data : { ...data, name });
+}
+
+// React Query hook for fetching all saved views
+export function useViews() {
+  return useQuery({ queryKey: ["views"], queryFn: fetchViews });
+}
+
+// Refresh the saved views after any change
+function useInvalidateViews() {
+  const qc = useQueryClient(); // Get the query client instance
+  return () => qc.invalidateQueries({ queryKey: ["views"] });
+}
+
+// React Query mutation hook for saving the current filters as a view
+export function useCreateView() {
+  const invalidate = useInvalidateViews();
+  return useMutation({
+    mutationFn: (input: SavedViewInput) => createView(input),
+    onSettled: invalidate, // The view may exist even if making it the default failed
+  });
+}
+
+// React Query mutation hook for renaming a view or updating its filters
+export function useUpdateView() {
+  const invalidate = useInvalidateViews();
+  return useMutation({
+    mutationFn: ({ view, data }: { view: SavedView; data: Partial<Pick<SavedView, "name" | "query">> }) => updateView(view, data),
+    onSuccess: invalidate,
+  });
+}
+
+// React Query mutation hook for choosing (or clearing) the default view
+export function useSetDefaultView() {
+  const invalidate = useInvalidateViews();
+  return useMutation({
+    mutationFn: (id: string | null) => setDefaultView(id),
+    onSettled: invalidate,
+  });
+}
+
+// React Query mutation hook for deleting saved views
+export function useDeleteView() {
+  const invalidate = useInvalidateViews();
+  return useMutation({
+    mutationFn: (id: string) => deleteViewApi(id),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Category charts for the analytics page
+ *
+ * - CategoryDonutChart: share of the total saved held in each category
+ * - CategoryProgressChart: saved vs. still needed per category, stacked
+ *
+ * Purpose: Shows where the money is actually going
+ */
+
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Label, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { CategoryBreakdown } from "@/lib/analytics";
+
+/**
+ * Props interface for the category charts
+ */
+interface CategoryChartProps {
+  data: CategoryBreakdown[]; // Totals per category from getCategoryBreakdown
+  currency: string; // Currency of every amount in `data`
+  className?: string; // Size overrides for the chart container
+}
+
+
+// Category names can contain spaces and symbols, so chart config keys (which become CSS variables) use the index
+const categoryKey = (index: number) => `category-${index}`;
+
+/**
+ * CategoryDonutChart Component - Saved amount per category, in each category's own color
+ */
+export function CategoryDonutChart({ data, currency, className }: CategoryChartProps) {
+  const fmt = useFormatter();
+  const { t } = useTranslation();
+  const config: ChartConfig = Object.fromEntries(data.map((c, i) => [categoryKey(i), { label: c.name, color: c.color }]));
+  const slices = data
+    .map((c, i) => ({ key: categoryKey(i), saved: c.saved }))
+    .filter((slice) => slice.saved > 0); // Empty categories would only add zero-width slices
+  const total = data.reduce((sum, c) => sum + c.saved, 0);
+
+  return (
+    <ChartContainer config={config} className={className}>
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel formatter={(value, _, item) => `${config[item.payload.key]?.label}: ${fmt.money(Number(value), currency)}`} />} />
+        <Pie data={slices} dataKey="saved" nameKey="key" innerRadius="55%" strokeWidth={2}>
+          {slices.map((slice) => (
+            <Cell key={slice.key} fill={`var(--color-${slice.key})`} />
+          ))}
+          {/* Total saved in the hole of the donut */}
+          <Label
+            position="center"
+            content={({ viewBox }) =>
+              viewBox && "cx" in viewBox ? (
+                <text x={viewBox.cx} y={viewBox.cy} textAnchor="middle" dominantBaseline="middle">
+                  <tspan x={viewBox.cx} y={viewBox.cy} className="fill-foreground text-lg font-bold">{fmt.money(total, currency)}</tspan>
+                  <tspan x={viewBox.cx} y={(viewBox.cy ?? 0) + 20} className="fill-muted-foreground">{t("analytics.savedTotal")}</tspan>
+                </text>
+              ) : null
+            }
+          />
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="key" />} className="flex-wrap gap-2" />
+      </PieChart>
+    </ChartContainer>
+  );
+}
+
+/**
+ * CategoryProgressChart Component - Saved and still needed per category; together they reach the category's target
+ */
+export function CategoryProgressChart({ data, currency, className }: CategoryChartProps) {
+  const fmt = useFormatter();
+  const { t } = useTranslation();
+
+  // Series colors and labels for the stacked bars
+  const progressConfig = useMemo(() => ({
+    saved: { label: t("analytics.saved"), color: "hsl(var(--brand))" },
+    remaining: { label: t("analytics.stillNeeded"), color: "hsl(var(--muted-foreground) / 0.35)" },
+  }) satisfies ChartConfig, [t]);
+
+  return (
+    <ChartContainer config={progressConfig} className={className}>
+      <BarChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="name" tickLine={false} axisLine={false} tickMargin={8} interval={0} />
+        <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(n: number) => fmt.money(n, currency)} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => `${progressConfig[name as keyof typeof progressConfig]?.label ?? name}: ${fmt.money(Number(value), currency)}`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="saved" stackId="target" fill="var(--color-saved)" />
+        <Bar dataKey="remaining" stackId="target" fill="var(--color-remaining)" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
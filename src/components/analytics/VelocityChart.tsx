@@ -0,0 +1,55 @@
+/**
+ * VelocityChart Component
+ *
+ * Bar chart of money deposited and withdrawn per calendar month, across all goals.
+ *
+ * Purpose: Shows whether saving is speeding up or slowing down
+ */
+
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { MonthlyVelocity } from "@/lib/analytics";
+
+/**
+ * Props interface for VelocityChart component
+ */
+interface VelocityChartProps {
+  data: MonthlyVelocity[]; // Monthly totals from getMonthlyVelocity
+  currency: string; // Currency of every amount in `data`
+  className?: string; // Size overrides for the chart container
+}
+
+export function VelocityChart({ data, currency, className }: VelocityChartProps) {
+  const fmt = useFormatter(); // Month names and amounts follow the display settings
+  const { t } = useTranslation();
+
+  // Series colors and labels used by the chart, its tooltip and legend
+  const chartConfig = useMemo(() => ({
+    deposited: { label: t("analytics.deposited"), color: "hsl(var(--success))" },
+    withdrawn: { label: t("analytics.withdrawn"), color: "hsl(var(--destructive))" },
+  }) satisfies ChartConfig, [t]);
+
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <BarChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(m: string) => fmt.month(m, "short")} />
+        <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(n: number) => fmt.money(n, currency)} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => fmt.month(payload[0]?.payload.month, "long")}
+              formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${fmt.money(Number(value), currency)}`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="deposited" fill="var(--color-deposited)" radius={[4, 4, 0, 0]} />
+        <Bar dataKey="withdrawn" fill="var(--color-withdrawn)" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
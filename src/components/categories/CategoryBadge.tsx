@@ -0,0 +1,28 @@
+/**
+ * CategoryBadge Component
+ *
+ * Shows a category name together with its icon and color.
+ * Falls back to a neutral tag icon for names not (yet) in the categories collection.
+ */
+
+import { getCategoryIcon, DEFAULT_CATEGORY_COLOR } from "@/lib/category-icons";
+import { findCategory, type Category } from "@/types/category";
+import { cn } from "@/lib/utils";
+
+interface CategoryBadgeProps {
+  name: string; // Category name as stored on the goal
+  categories: Category[]; // Known categories used to look up icon and color
+  className?: string;
+}
+
+export function CategoryBadge({ name, categories, className }: CategoryBadgeProps) {
+  const category = findCategory(categories, name);
+  const Icon = getCategoryIcon(category?.icon);
+
+  return (
+    <span className={cn("inline-flex items-center gap-1.5", className)}>
+      <Icon className="h-3.5 w-3.5" style={{ color: category?.color ?? DEFAULT_CATEGORY_COLOR }} aria-hidden />
+      {category?.name ?? name}
+    </span>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * CategoryDialog Component
+ *
+ * A modal dialog for creating a category or changing its name, color and icon.
+ * Renaming is applied to every goal in the category by the API layer.
+ *
+ * Purpose: Single form for category create/edit
+ */
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTranslation } from "@/hooks/use-translation";
+import { cn } from "@/lib/utils";
+import { CATEGORY_ICONS, DEFAULT_CATEGORY_COLOR, DEFAULT_CATEGORY_ICON } from "@/lib/category-icons";
+import type { Category, CategoryInput } from "@/types/category";
+
+/**
+ * Props interface for CategoryDialog component
+ */
+interface CategoryDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  initial?: Category; // Category being edited (create mode when missing)
+  onSubmit: (values: CategoryInput) => Promise<void> | void; // Submission handler
+}
+
+/**
+ * CategoryDialog Component - Create or edit a category
+ *
+ * Features:
+ * - Required name
+ * - Color picker
+ * - Icon picker from the shared icon set
+ */
+export function CategoryDialog({ open, onOpenChange, initial, onSubmit }: CategoryDialogProps) {
+  // Form state
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_CATEGORY_COLOR);
+  const [icon, setIcon] = useState(DEFAULT_CATEGORY_ICON);
+  const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+  const { t } = useTranslation(); // Labels in the chosen language
+
+  /**
+   * Populate the form each time the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name ?? "");
+    setColor(initial?.color ?? DEFAULT_CATEGORY_COLOR);
+    setIcon(initial?.icon ?? DEFAULT_CATEGORY_ICON);
+  }, [open, initial]);
+
+  const valid = name.trim() !== "";
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ name: name.trim(), color, icon });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Saving category failed:", error);
+      // Error handling is typically done by the parent component
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{initial ? t("categoryDialog.editTitle") : t("categoryDialog.newTitle")}</DialogTitle>
+          <DialogDescription>
+            {initial ? t("categoryDialog.editDescription") : t("categoryDialog.newDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="category-name">{t("categoryDialog.name")}</Label>
+            <Input id="category-name" placeholder={t("categoryDialog.namePlaceholder")} value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="category-color">{t("categoryDialog.color")}</Label>
+            <Input id="category-color" type="color" className="h-10 w-20 p-1" value={color} onChange={(e) => setColor(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label>{t("categoryDialog.icon")}</Label>
+            <div className="grid grid-cols-6 gap-2">
+              {Object.entries(CATEGORY_ICONS).map(([key, Icon]) => (
+                <Button
+                  key={key}
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  aria-label={key}
+                  aria-pressed={icon === key}
+                  className={cn(icon === key && "ring-2 ring-ring")}
+                  onClick={() => setIcon(key)}
+                >
+                  <Icon className="h-4 w-4" style={{ color }} />
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!valid || isSubmitting}>
+              {isSubmitting ? t("common.saving") : t("categoryDialog.submit")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
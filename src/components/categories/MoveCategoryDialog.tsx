@@ -0,0 +1,102 @@
+/**
+ * MoveCategoryDialog Component
+ *
+ * Confirms merging or deleting a category. Goals in the category are moved
+ * to the chosen target; when deleting an unused category no target is needed.
+ *
+ * Purpose: Shared confirmation for the two actions that remove a category
+ */
+
+import { useEffect, useState } from "react";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Category } from "@/types/category";
+
+/**
+ * Props interface for MoveCategoryDialog component
+ */
+interface MoveCategoryDialogProps {
+  mode: "merge" | "delete"; // Merge always needs a target; delete only when goals use the category
+  category: Category | null; // Category being merged/deleted (dialog closed when null)
+  categories: Category[]; // All categories, used for the target picker
+  goalCount: number; // Goals currently filed under the category
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  onConfirm: (target?: Category) => Promise<void> | void; // Confirmation handler
+}
+
+/**
+ * MoveCategoryDialog Component - Merge or delete confirmation
+ */
+export function MoveCategoryDialog({ mode, category, categories, goalCount, onOpenChange, onConfirm }: MoveCategoryDialogProps) {
+  const [targetId, setTargetId] = useState(""); // Selected target category
+  const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+  const { t } = useTranslation(); // Labels in the chosen language
+
+  // Reset the target whenever a different category is opened
+  useEffect(() => {
+    setTargetId("");
+  }, [category]);
+
+  const targets = categories.filter((c) => c.id !== category?.id);
+  const needsTarget = mode === "merge" || goalCount > 0;
+  const target = targets.find((c) => c.id === targetId);
+
+  const handleConfirm = async () => {
+    if (needsTarget && !target) return;
+    setIsSubmitting(true);
+    try {
+      await onConfirm(target);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Category change failed:", error);
+      // Error handling is typically done by the parent component
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={category !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {t(mode === "merge" ? "moveCategory.mergeTitle" : "moveCategory.deleteTitle", { name: category?.name ?? "" })}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {needsTarget ? t("moveCategory.inUse", { count: goalCount, name: category?.name ?? "" }) : t("moveCategory.unused")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {needsTarget && (
+          <div className="grid gap-2">
+            <Label htmlFor="category-target">{mode === "merge" ? t("moveCategory.mergeInto") : t("moveCategory.moveTo")}</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger id="category-target">
+                <SelectValue placeholder={t("moveCategory.targetPlaceholder")} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSubmitting}>{t("common.cancel")}</AlertDialogCancel>
+          <Button
+            variant={mode === "delete" ? "destructive" : "default"}
+            onClick={handleConfirm}
+            disabled={(needsTarget && !target) || isSubmitting}
+          >
+            {isSubmitting ? t("moveCategory.working") : mode === "merge" ? t("categories.merge") : t("common.delete")}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
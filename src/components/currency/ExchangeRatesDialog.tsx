@@ -0,0 +1,115 @@
+/**
+ * ExchangeRatesDialog Component
+ *
+ * Lets the user pick a base currency and type in how much one unit of each other
+ * currency is worth in it. Rates are kept in this browser and applied as they are typed;
+ * the base currency is saved with the display settings (also on the settings page).
+ *
+ * Purpose: Totals across goals in different currencies need rates; none are fetched or guessed
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useUpdateSettings } from "@/api/settings";
+import { useTranslation } from "@/hooks/use-translation";
+import { CURRENCY_CODES } from "@/lib/currency";
+
+/**
+ * Props interface for ExchangeRatesDialog component
+ */
+interface ExchangeRatesDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  currencies: string[]; // Currencies used by goals; always listed
+}
+
+export function ExchangeRatesDialog({ open, onOpenChange, currencies }: ExchangeRatesDialogProps) {
+  const { table, baseCurrency, storedBase, linked, canSetRate, setRate } = useExchangeRates();
+  const updateSettings = useUpdateSettings();
+  const [added, setAdded] = useState<string[]>([]); // Currencies added to the table by hand this time
+  const { t, errorMessage } = useTranslation(); // Labels in the chosen language
+
+  // Goal currencies, currencies that already have a rate and ones just added, without the base
+  // (plus the saved rates' currency while it still needs a rate to link them)
+  const rows = [...new Set([...currencies, ...Object.keys(table.rates), ...added, ...(linked ? [] : [storedBase])])]
+    .filter((code) => code !== baseCurrency)
+    .sort();
+  const addable = CURRENCY_CODES.filter((code) => code !== baseCurrency && !rows.includes(code));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("rates.title")}</DialogTitle>
+          <DialogDescription>{t("rates.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {/* Base currency */}
+          <div className="grid gap-2">
+            <Label htmlFor="base-currency">{t("rates.baseCurrency")}</Label>
+            <Select
+              value={baseCurrency}
+              onValueChange={(code) =>
+                updateSettings.mutate({ baseCurrency: code }, { onError: (e) => toast.error(errorMessage(e, t("rates.baseFailed"))) })
+              }
+            >
+              <SelectTrigger id="base-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([...CURRENCY_CODES, ...currencies])].map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Saved rates are kept in their own currency until the base currency is linked to them */}
+          {!linked && (
+            <p className="text-sm text-muted-foreground">
+              {t("rates.unlinked", { stored: storedBase, base: baseCurrency })}
+            </p>
+          )}
+
+          {/* One rate per currency; inputs are keyed by base so they reload after a switch */}
+          {rows.map((code) => (
+            <div key={`${baseCurrency}-${code}`} className="flex items-center gap-2 text-sm">
+              <Label htmlFor={`rate-${code}`} className="w-16 shrink-0 font-normal">{t("rates.rateLabel", { code })}</Label>
+              <Input
+                id={`rate-${code}`}
+                type="number"
+                min="0"
+                step="any"
+                placeholder={t("rates.noRate")}
+                defaultValue={table.rates[code] ?? ""}
+                disabled={!canSetRate(code)}
+                onChange={(e) => setRate(code, e.target.value === "" ? undefined : Number(e.target.value))}
+              />
+              <span className="w-10 shrink-0 text-muted-foreground">{baseCurrency}</span>
+            </div>
+          ))}
+
+          {/* Rates for currencies no goal uses yet */}
+          {addable.length > 0 && (
+            <Select value="" onValueChange={(code) => setAdded((prev) => [...prev, code])}>
+              <SelectTrigger aria-label={t("rates.add")}>
+                <SelectValue placeholder={t("rates.add")} />
+              </SelectTrigger>
+              <SelectContent>
+                {addable.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
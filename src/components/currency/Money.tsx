@@ -0,0 +1,35 @@
+/**
+ * Money Component
+ *
+ * Shows an amount in its own currency and, when that isn't the base currency,
+ * the base currency equivalent next to it (e.g. "€500.00 ≈ $540.00").
+ *
+ * Purpose: Goals keep their own currency while totals are in the base currency
+ */
+
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useFormatter } from "@/hooks/use-formatter";
+
+/**
+ * Props interface for Money component
+ */
+interface MoneyProps {
+  amount: number;
+  currency: string; // Currency the amount is in
+  className?: string;
+}
+
+export function Money({ amount, currency, className }: MoneyProps) {
+  const { baseCurrency, toBase } = useExchangeRates();
+  const fmt = useFormatter();
+  const converted = currency === baseCurrency ? undefined : toBase(amount, currency); // No equivalent without a rate
+
+  return (
+    <span className={className}>
+      {fmt.money(amount, currency)}
+      {converted !== undefined && (
+        <span className="font-normal text-muted-foreground"> ≈ {fmt.money(converted, baseCurrency)}</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * BurnUpChart Component
+ *
+ * Burn-up chart of savings over time: the amount actually saved (rebuilt from the ledger)
+ * against the ideal straight-line pace from a goal's creation to its target on the deadline.
+ * Works for a single goal or for several goals summed together.
+ *
+ * Purpose: Shows at a glance whether savings are keeping up with the deadline
+ */
+
+import { useMemo } from "react";
+import { parseISO } from "date-fns";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { BurnUpPoint } from "@/lib/history";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+
+/**
+ * Props interface for BurnUpChart component
+ */
+interface BurnUpChartProps {
+  data: BurnUpPoint[]; // Points from getBurnUp
+  target?: number; // Target amount drawn as a reference line
+  currency: string; // Currency of every amount in `data`
+  className?: string; // Size overrides for the chart container
+}
+
+export function BurnUpChart({ data, target, currency, className }: BurnUpChartProps) {
+  const fmt = useFormatter(); // Axis and tooltip follow the display settings
+  const { t } = useTranslation();
+
+  // Series colors and labels used by the chart, its tooltip and legend
+  const chartConfig = useMemo(() => ({
+    saved: { label: t("burnUp.saved"), color: "hsl(var(--brand))" },
+    ideal: { label: t("burnUp.ideal"), color: "hsl(var(--muted-foreground))" },
+  }) satisfies ChartConfig, [t]);
+
+  // Points carry a timestamp so the x axis spaces them by real time, not by index
+  const points = useMemo(() => data.map((p) => ({ ...p, time: parseISO(p.date).getTime() })), [data]);
+
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <ComposedChart data={points} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={32}
+          tickFormatter={(t: number) => fmt.shortDate(t)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={72} tickFormatter={(n: number) => fmt.money(n, currency)} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => fmt.date(payload[0]?.payload.date)}
+              formatter={(value, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name}: ${fmt.money(Number(value), currency)}`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {/* Target amount for comparison */}
+        {target !== undefined && (
+          <ReferenceLine y={target} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label={{ value: t("burnUp.target"), position: "insideTopRight", fill: "hsl(var(--muted-foreground))" }} />
+        )}
+        {/* Balances only change on days with ledger activity, so the area steps instead of sloping */}
+        <Area dataKey="saved" type="stepAfter" stroke="var(--color-saved)" fill="var(--color-saved)" fillOpacity={0.2} />
+        {/* Straight line from nothing at creation to the target on the deadline */}
+        <Line dataKey="ideal" type="linear" stroke="var(--color-ideal)" strokeDasharray="6 4" dot={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * ContributionPlanDialog Component
+ *
+ * A modal dialog for attaching a recurring contribution plan to a goal.
+ * Each due occurrence later appears as a pending deposit the user confirms.
+ *
+ * Purpose: Lets users turn a goal into a concrete savings schedule
+ * Importance: Drives the pending contributions shown on the dashboard
+ */
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FREQUENCIES, today } from "@/lib/schedule";
+import { getMinorStep, parseAmount, toMajorUnits } from "@/lib/currency";
+import { useTranslation } from "@/hooks/use-translation";
+import type { ContributionFrequency, ContributionPlan } from "@/types/goal";
+
+/**
+ * Props interface for ContributionPlanDialog component
+ */
+interface ContributionPlanDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  plan?: ContributionPlan; // Existing plan when editing
+  currency: string; // The goal's currency; the amount is entered in it
+  onSave: (plan: ContributionPlan | null) => Promise<void> | void; // Handler for saving (null removes the plan)
+}
+
+/**
+ * ContributionPlanDialog Component - Creates, edits and removes a goal's plan
+ *
+ * Features:
+ * - Amount, frequency, start and optional end date
+ * - Keeps the scheduled-through marker so past occurrences are not repeated
+ * - Removing the plan stops future pending deposits
+ */
+export function ContributionPlanDialog({ open, onOpenChange, plan, currency, onSave }: ContributionPlanDialogProps) {
+  // Form state
+  const [amount, setAmount] = useState("");
+  const [frequency, setFrequency] = useState<ContributionFrequency>("monthly");
+  const [startDate, setStartDate] = useState(today());
+  const [endDate, setEndDate] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+  const { t } = useTranslation(); // Labels in the chosen language
+
+  /**
+   * Populate the form from the current plan each time the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setAmount(plan ? String(toMajorUnits(plan.amount, currency)) : "");
+    setFrequency(plan?.frequency ?? "monthly");
+    setStartDate(plan?.startDate ?? today());
+    setEndDate(plan?.endDate ?? "");
+  }, [open, plan, currency]);
+
+  const minorAmount = parseAmount(amount, currency); // Typed amount in minor units; undefined while invalid
+  const endBeforeStart = endDate !== "" && endDate < startDate;
+  const valid = minorAmount !== undefined && startDate !== "" && !endBeforeStart;
+
+  /**
+   * Saves the plan (or removes it when `next` is null)
+   */
+  const submit = async (next: ContributionPlan | null) => {
+    setIsSubmitting(true);
+    try {
+      await onSave(next);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Saving plan failed:", error);
+      // Error handling is typically done by parent component
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!valid) return;
+    submit({
+      amount: minorAmount,
+      frequency,
+      startDate,
+      ...(endDate ? { endDate } : {}),
+      ...(plan?.scheduledThrough ? { scheduledThrough: plan.scheduledThrough } : {}),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("plan.title")}</DialogTitle>
+          <DialogDescription>{t("plan.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="plan-amount">{t("common.amount", { currency })}</Label>
+            <Input
+              id="plan-amount"
+              type="number"
+              placeholder={t("common.amountPlaceholder")}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min={getMinorStep(currency)}
+              step={getMinorStep(currency)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="plan-frequency">{t("plan.frequency")}</Label>
+            <Select value={frequency} onValueChange={(v) => setFrequency(v as ContributionFrequency)}>
+              <SelectTrigger id="plan-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FREQUENCIES.map((f) => (
+                  <SelectItem key={f} value={f}>{t(`frequency.${f}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="plan-start">{t("plan.startDate")}</Label>
+              <Input id="plan-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="plan-end">{t("plan.endDate")}</Label>
+              <Input id="plan-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          {endBeforeStart && (
+            <p className="text-sm text-destructive">{t("plan.endBeforeStart")}</p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {plan && (
+            <Button variant="destructive" onClick={() => submit(null)} disabled={isSubmitting}>
+              {t("plan.remove")}
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!valid || isSubmitting}>
+            {isSubmitting ? t("common.saving") : t("plan.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
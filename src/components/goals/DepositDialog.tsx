@@ -14,6 +14,10 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { getMinorStep, parseAmount } from "@/lib/currency";
 
 /**
  * Props interface for DepositDialog component
@@ -21,50 +25,51 @@ import { Label } from "@/components/ui/label";
 interface DepositDialogProps {
   open: boolean; // Controls dialog visibility
   onOpenChange: (open: boolean) => void; // Handler for dialog state changes
-  onDeposit: (amount: number) => Promise<void> | void; // Handler for deposit submission
+  currency: string; // The goal's currency; deposits are recorded in it
+  onDeposit: (amount: number, note: string) => Promise<void> | void; // Handler for deposit submission, amount in minor units
 }
 
 /**
  * DepositDialog Component - Handles deposit functionality
  * 
  * Features:
- * - Amount validation (must be positive number)
+ * - Amount validation (positive, with no more decimals than the currency has)
+ * - Optional note recorded on the ledger entry
+ * - Amount entered in the goal's currency, with its base currency equivalent
  * - Loading state during submission
  * - Success/error handling
  * - Auto-close after successful deposit
  * - Clear user feedback
  */
-export function DepositDialog({ open, onOpenChange, onDeposit }: DepositDialogProps) {
+export function DepositDialog({ open, onOpenChange, currency, onDeposit }: DepositDialogProps) {
   // State for deposit amount and loading status
   const [amount, setAmount] = useState(""); // Stores the deposit amount as string
+  const [note, setNote] = useState(""); // Optional note stored on the ledger entry
   const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+  const { baseCurrency, toBase } = useExchangeRates();
+  const fmt = useFormatter();
+  const { t } = useTranslation(); // Labels in the chosen language
 
-  /**
-   * Formats currency for display
-   * @param n - The number to format
-   * @returns Formatted currency string
-   */
-  const formatCurrency = (n: number) => {
-    return new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n);
-  };
+  // What the deposit is worth in the base currency, shown when the goal uses another one
+  const minorAmount = parseAmount(amount, currency); // Typed amount in minor units; undefined while invalid
+  const inBase = currency !== baseCurrency && minorAmount !== undefined ? toBase(minorAmount, currency) : undefined;
 
   /**
    * Handles deposit submission
    * Validates amount and calls the provided onDeposit handler
    */
   const handleDeposit = async () => {
-    const numericAmount = Number(amount);
-    
     // Validation: Check if amount is valid
-    if (!amount || isNaN(numericAmount) || numericAmount <= 0) {
+    if (minorAmount === undefined) {
       return; // Don't proceed with invalid amount
     }
 
     setIsSubmitting(true); // Set loading state
     
     try {
-      await onDeposit(numericAmount); // Process the deposit
+      await onDeposit(minorAmount, note); // Process the deposit
       setAmount(""); // Reset amount field
+      setNote(""); // Reset note field
       onOpenChange(false); // Close dialog
     } catch (error) {
       console.error("Deposit failed:", error);
@@ -78,7 +83,7 @@ export function DepositDialog({ open, onOpenChange, onDeposit }: DepositDialogPr
    * Handles key press events (Enter key submission)
    */
   const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && amount && Number(amount) > 0) {
+    if (e.key === "Enter" && minorAmount !== undefined) {
       handleDeposit();
     }
   };
@@ -87,30 +92,42 @@ export function DepositDialog({ open, onOpenChange, onDeposit }: DepositDialogPr
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Make a Deposit</DialogTitle>
+          <DialogTitle>{t("deposit.title")}</DialogTitle>
           <DialogDescription>
-            Add money to this goal to track your progress
+            {t("deposit.description")}
           </DialogDescription>
         </DialogHeader>
 
         <div className="grid gap-4 py-4">
           <div className="grid gap-2">
-            <Label htmlFor="amount">Amount</Label>
+            <Label htmlFor="amount">{t("deposit.amount", { currency })}</Label>
             <Input
               id="amount"
               type="number"
-              placeholder="Enter amount"
+              placeholder={t("deposit.amountPlaceholder")}
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
               onKeyPress={handleKeyPress}
-              min="0.01"
-              step="0.01"
+              min={getMinorStep(currency)}
+              step={getMinorStep(currency)}
               autoFocus
             />
             <p className="text-sm text-muted-foreground">
-              Enter the amount you want to add to this goal
+              {inBase !== undefined
+                ? `${fmt.money(minorAmount ?? 0, currency)} ≈ ${fmt.money(inBase, baseCurrency)}`
+                : t("deposit.amountHint")}
             </p>
           </div>
+          <div className="grid gap-2">
+            <Label htmlFor="deposit-note">{t("deposit.note")}</Label>
+            <Input
+              id="deposit-note"
+              placeholder={t("deposit.notePlaceholder")}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onKeyPress={handleKeyPress}
+            />
+          </div>
         </div>
 
         <DialogFooter>
@@ -119,13 +136,13 @@ export function DepositDialog({ open, onOpenChange, onDeposit }: DepositDialogPr
             onClick={() => onOpenChange(false)}
             disabled={isSubmitting}
           >
-            Cancel
+            {t("common.cancel")}
           </Button>
           <Button
             onClick={handleDeposit}
-            disabled={!amount || Number(amount) <= 0 || isSubmitting}
+            disabled={minorAmount === undefined || isSubmitting}
           >
-            {isSubmitting ? "Processing..." : "Deposit"}
+            {isSubmitting ? t("deposit.processing") : t("deposit.submit")}
           </Button>
         </DialogFooter>
       </DialogContent>
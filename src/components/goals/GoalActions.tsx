@@ -0,0 +1,152 @@
+/**
+ * GoalActions Component
+ *
+ * The row of action buttons for a goal together with the dialogs they open:
+ * deposit, withdraw, transfer, edit, history, contribution schedule and delete.
+ *
+ * Purpose: Lets the goal card and the goal detail page offer the same actions
+ * Importance: Every change a user makes to a goal starts here
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { DepositDialog } from "./DepositDialog";
+import { GoalForm, GoalFormValues } from "./GoalForm";
+import { TransactionHistoryDialog } from "./TransactionHistoryDialog";
+import { WithdrawDialog } from "./WithdrawDialog";
+import { TransferDialog } from "./TransferDialog";
+import { ContributionPlanDialog } from "./ContributionPlanDialog";
+import { cn } from "@/lib/utils";
+import { getGoalCurrency } from "@/lib/currency";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Goal } from "@/types/goal";
+import type { WithdrawalReason } from "@/types/transaction";
+
+/**
+ * Props interface for GoalActions component
+ */
+export interface GoalActionsProps {
+  goal: Goal; // The goal the actions apply to
+  onUpdate: (id: string, data: Partial<Goal>) => Promise<void> | void; // Handler for goal updates
+  onDelete: (id: string) => Promise<void> | void; // Handler for goal deletion
+  onDeposit: (id: string, amount: number, note: string, version?: number) => Promise<void> | void; // Handler for deposits (version = revision the user saw)
+  onWithdraw: (id: string, amount: number, reason: WithdrawalReason, note: string) => Promise<void> | void; // Handler for withdrawals
+  onTransfer: (fromId: string, toId: string, amount: number, note: string, receivedAmount?: number) => Promise<void> | void; // Handler for transfers between goals
+  showHistory?: boolean; // Hide the History button where the ledger is already on screen
+  className?: string; // Extra classes for the button row
+}
+
+/**
+ * GoalActions Component - Action buttons and their dialogs
+ */
+export function GoalActions({ goal, onUpdate, onDelete, onDeposit, onWithdraw, onTransfer, showHistory = true, className }: GoalActionsProps) {
+  // State for controlling dialog visibility
+  const [depositOpen, setDepositOpen] = useState(false); // Controls deposit dialog
+  const [withdrawOpen, setWithdrawOpen] = useState(false); // Controls withdrawal dialog
+  const [transferOpen, setTransferOpen] = useState(false); // Controls transfer dialog
+  const [planOpen, setPlanOpen] = useState(false); // Controls recurring contribution dialog
+  const [editOpen, setEditOpen] = useState(false); // Controls edit form dialog
+  const [historyOpen, setHistoryOpen] = useState(false); // Controls ledger history dialog
+  const { t } = useTranslation();
+
+  return (
+    <>
+      {/* Action buttons for user interactions */}
+      <div className={cn("flex flex-wrap gap-2", className)}>
+        <Button onClick={() => setDepositOpen(true)} className="bg-brand text-brand-foreground hover:opacity-90">
+          {t("goalActions.deposit")}
+        </Button>
+        <Button variant="outline" onClick={() => setWithdrawOpen(true)} disabled={goal.savedAmount <= 0}>
+          {t("goalActions.withdraw")}
+        </Button>
+        <Button variant="outline" onClick={() => setTransferOpen(true)} disabled={goal.savedAmount <= 0}>
+          {t("goalActions.transfer")}
+        </Button>
+        <Button variant="secondary" onClick={() => setEditOpen(true)}>{t("goalActions.edit")}</Button>
+        {showHistory && <Button variant="outline" onClick={() => setHistoryOpen(true)}>{t("goalActions.history")}</Button>}
+        <Button variant="outline" onClick={() => setPlanOpen(true)}>{goal.plan ? t("goalActions.schedule") : t("goalActions.addSchedule")}</Button>
+
+        {/* Delete confirmation dialog */}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive">{t("goalActions.delete")}</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t("goalActions.deleteTitle")}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t("goalActions.deleteDescription")}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+              <AlertDialogAction onClick={() => onDelete(goal.id)}>{t("goalActions.delete")}</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {/* Deposit dialog - allows users to add money to the goal */}
+      <DepositDialog
+        open={depositOpen}
+        onOpenChange={setDepositOpen}
+        currency={getGoalCurrency(goal)}
+        onDeposit={async (amount, note) => {
+          await onDeposit(goal.id, amount, note, goal.version);
+          setDepositOpen(false);
+        }}
+      />
+
+      {/* Withdraw dialog - takes money out of the goal with a reason */}
+      <WithdrawDialog
+        open={withdrawOpen}
+        onOpenChange={setWithdrawOpen}
+        available={goal.savedAmount}
+        currency={getGoalCurrency(goal)}
+        onWithdraw={async (amount, reason, note) => {
+          await onWithdraw(goal.id, amount, reason, note);
+          setWithdrawOpen(false);
+        }}
+      />
+
+      {/* Transfer dialog - moves savings into another goal */}
+      <TransferDialog
+        open={transferOpen}
+        onOpenChange={setTransferOpen}
+        goal={goal}
+        onTransfer={async (toId, amount, note, receivedAmount) => {
+          await onTransfer(goal.id, toId, amount, note, receivedAmount);
+          setTransferOpen(false);
+        }}
+      />
+
+      {/* Plan dialog - attaches a recurring contribution plan */}
+      <ContributionPlanDialog
+        open={planOpen}
+        onOpenChange={setPlanOpen}
+        plan={goal.plan ?? undefined}
+        currency={getGoalCurrency(goal)}
+        onSave={async (plan) => {
+          await onUpdate(goal.id, { plan, version: goal.version }); // Rejected if the goal changed elsewhere
+          setPlanOpen(false);
+        }}
+      />
+
+      {/* History dialog - lists the goal's ledger entries */}
+      {showHistory && <TransactionHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} goal={goal} />}
+
+      {/* Edit dialog - allows users to modify goal details */}
+      <GoalForm
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        mode="edit"
+        initial={goal}
+        onSubmit={async (values: GoalFormValues) => {
+          await onUpdate(goal.id, { ...values, version: goal.version }); // Rejected if the goal changed elsewhere
+          setEditOpen(false);
+        }}
+      />
+    </>
+  );
+}
@@ -9,62 +9,27 @@
  */
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { Badge } from "@/components/ui/badge";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { Goal, getProgress, getRemaining } from "@/types/goal";
-import { useMemo, useState } from "react";
-import { format } from "date-fns";
-import { DepositDialog } from "./DepositDialog";
-import { GoalForm, GoalFormValues } from "./GoalForm";
+import { Goal, IMPLAUSIBLE_OVERSHOOT, getGoalIssueCodes, getProgress, getRemaining, getRequiredContribution } from "@/types/goal";
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { GoalActions, type GoalActionsProps } from "./GoalActions";
+import { GoalStatusBadge } from "./GoalStatusBadge";
+import { getNextContribution } from "@/lib/schedule";
+import { forecastCompletion, getStatus } from "@/lib/forecast";
+import { useTransactions } from "@/api/transactions";
+import { useCategories } from "@/api/categories";
+import { CategoryBadge } from "@/components/categories/CategoryBadge";
+import { Money } from "@/components/currency/Money";
+import { getGoalCurrency } from "@/lib/currency";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
 
 /**
- * Formats a number as USD currency
- * @param n - The number to format
- * @returns Formatted currency string (e.g., "$1,234.56")
+ * Props for GoalCard component
+ * The goal to display and the handlers passed on to its actions
  */
-function formatCurrency(n: number) {
-  return new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n);
-}
-
-/**
- * Calculates days remaining until deadline
- * @param deadline - The deadline date string (YYYY-MM-DD format)
- * @returns Number of days remaining (negative if overdue)
- */
-function daysLeft(deadline: string) {
-  const now = new Date();
-  const dl = new Date(deadline + "T00:00:00");
-  const diff = Math.ceil((dl.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-  return diff;
-}
-
-/**
- * Determines the status of a goal based on progress and deadline
- * @param goal - The goal object to evaluate
- * @returns Object with label and tone for styling
- */
-function getStatus(goal: Goal) {
-  const complete = goal.savedAmount >= goal.targetAmount && goal.targetAmount > 0;
-  const left = daysLeft(goal.deadline);
-  
-  if (complete) return { label: "Completed", tone: "success" as const };
-  if (left < 0) return { label: "Overdue", tone: "destructive" as const };
-  if (left <= 30) return { label: "Due soon", tone: "warning" as const };
-  return { label: "Active", tone: "secondary" as const };
-}
-
-/**
- * Props interface for GoalCard component
- * Defines the expected props and their types
- */
-interface GoalCardProps {
-  goal: Goal; // The goal object to display
-  onUpdate: (id: string, data: Partial<Goal>) => Promise<void> | void; // Handler for goal updates
-  onDelete: (id: string) => Promise<void> | void; // Handler for goal deletion
-  onDeposit: (id: string, amount: number) => Promise<void> | void; // Handler for deposits
-}
+type GoalCardProps = Omit<GoalActionsProps, "showHistory" | "className">;
 
 /**
  * GoalCard Component - Main component for displaying individual goals
@@ -72,20 +37,28 @@ interface GoalCardProps {
  * This component renders a single goal as an interactive card with:
  * - Goal name and category
  * - Progress visualization
- * - Financial details (saved, target, remaining)
+ * - Financial details (saved, target, remaining, required weekly/monthly saving) in the goal's currency,
+ *   with the base currency equivalent when they differ
  * - Deadline information
- * - Status indicators
- * - Action buttons for deposits, editing, and deletion
+ * - Status indicators and completion forecast
+ * - Next scheduled contribution
+ * - Action buttons for deposits, withdrawals, transfers, editing, history, and deletion
  */
-export function GoalCard({ goal, onUpdate, onDelete, onDeposit }: GoalCardProps) {
-  // State for controlling dialog visibility
-  const [depositOpen, setDepositOpen] = useState(false); // Controls deposit dialog
-  const [editOpen, setEditOpen] = useState(false); // Controls edit form dialog
-
+export function GoalCard({ goal, ...actions }: GoalCardProps) {
   // Calculate derived values using utility functions
   const progress = getProgress(goal); // Progress percentage (0-100)
   const remaining = getRemaining(goal); // Amount still needed to reach target
-  const status = useMemo(() => getStatus(goal), [goal]); // Memoized status calculation
+  const perWeek = getRequiredContribution(goal, "week"); // Saving needed each week to hit the deadline
+  const perMonth = getRequiredContribution(goal, "month"); // Saving needed each month to hit the deadline
+  const { data: ledger = [] } = useTransactions(); // Shared ledger cache used for the forecast
+  const { data: categories = [] } = useCategories(); // Category colors and icons
+  const forecast = useMemo(() => forecastCompletion(goal, ledger), [goal, ledger]); // Projected completion at the current pace
+  const status = useMemo(() => getStatus(goal, forecast), [goal, forecast]); // Memoized status calculation
+  const issues = getGoalIssueCodes(goal); // Impossible values flagged for the user to fix
+  const nextContribution = goal.plan ? getNextContribution(goal.plan) : undefined; // Next scheduled deposit date
+  const currency = getGoalCurrency(goal); // Every amount of a goal is in its own currency
+  const fmt = useFormatter(); // Locale and date format from the display settings
+  const { t, rich } = useTranslation(); // Labels in the chosen language
 
   return (
     // Card container with hover effects for better UX
@@ -93,27 +66,31 @@ export function GoalCard({ goal, onUpdate, onDelete, onDeposit }: GoalCardProps)
       {/* Card header with goal name, category, and status badge */}
       <CardHeader className="flex flex-row items-start justify-between gap-2">
         <div>
-          {/* Goal name as the primary title */}
-          <CardTitle className="text-lg font-semibold">{goal.name}</CardTitle>
+          {/* Goal name as the primary title, linking to the goal's detail page */}
+          <CardTitle className="text-lg font-semibold">
+            <Link to={`/goals/${goal.id}`} className="hover:underline">{goal.name}</Link>
+          </CardTitle>
           {/* Category as secondary information */}
-          <div className="mt-1 text-sm text-muted-foreground">{goal.category}</div>
+          <CategoryBadge name={goal.category} categories={categories} className="mt-1 text-sm text-muted-foreground" />
         </div>
         
         {/* Status badge with color coding based on goal status */}
-        <Badge
-          variant={status.tone === "destructive" ? "destructive" : status.tone === "warning" ? "secondary" : status.tone === "success" ? "secondary" : "secondary"}
-          className={status.tone === "warning" ? "text-warning border border-warning/30" : status.tone === "success" ? "text-success border border-success/30" : ""}
-        >
-          {status.label}
-        </Badge>
+        <GoalStatusBadge status={status} />
       </CardHeader>
 
       {/* Main content area with goal details */}
       <CardContent className="space-y-4">
+        {/* Data problems are surfaced rather than silently corrected */}
+        {issues.length > 0 && (
+          <div role="alert" className="rounded-md border border-warning/30 px-3 py-2 text-sm text-warning">
+            {issues.map((issue) => t(`goalIssue.${issue}`, { times: IMPLAUSIBLE_OVERSHOOT })).join(". ")}. {t("goalCard.fixIssues")}
+          </div>
+        )}
+
         {/* Progress section with visual progress bar */}
         <div>
           <div className="flex items-center justify-between text-sm">
-            <span className="text-muted-foreground">Progress</span>
+            <span className="text-muted-foreground">{t("goalCard.progress")}</span>
             <span className="font-medium">{progress}%</span>
           </div>
           <Progress value={progress} className="mt-2" />
@@ -122,72 +99,67 @@ export function GoalCard({ goal, onUpdate, onDelete, onDeposit }: GoalCardProps)
         {/* Financial details grid - displays key metrics */}
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
-            <div className="text-muted-foreground">Saved</div>
-            <div className="font-medium">{formatCurrency(goal.savedAmount)}</div>
+            <div className="text-muted-foreground">{t("goalCard.saved")}</div>
+            <Money amount={goal.savedAmount} currency={currency} className="font-medium" />
           </div>
           <div>
-            <div className="text-muted-foreground">Target</div>
-            <div className="font-medium">{formatCurrency(goal.targetAmount)}</div>
+            <div className="text-muted-foreground">{t("goalCard.target")}</div>
+            <Money amount={goal.targetAmount} currency={currency} className="font-medium" />
           </div>
           <div>
-            <div className="text-muted-foreground">Remaining</div>
-            <div className="font-medium">{formatCurrency(remaining)}</div>
+            <div className="text-muted-foreground">{t("goalCard.remaining")}</div>
+            <Money amount={remaining} currency={currency} className="font-medium" />
           </div>
           <div>
-            <div className="text-muted-foreground">Deadline</div>
-            <div className="font-medium">{format(new Date(goal.deadline + "T00:00:00"), "PP")}</div>
+            <div className="text-muted-foreground">{t("goalCard.deadline")}</div>
+            <div className="font-medium">{fmt.date(goal.deadline)}</div>
           </div>
         </div>
 
-        {/* Action buttons for user interactions */}
-        <div className="flex gap-2 pt-2">
-          <Button onClick={() => setDepositOpen(true)} className="bg-brand text-brand-foreground hover:opacity-90">
-            Deposit
-          </Button>
-          <Button variant="secondary" onClick={() => setEditOpen(true)}>Edit</Button>
-          
-          {/* Delete confirmation dialog */}
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant="destructive">Delete</Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete this goal?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete the goal.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={() => onDelete(goal.id)}>Delete</AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+        {/* Required pace to reach the target by the deadline */}
+        {remaining > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{t("goalCard.needed")}</span>
+            <span className="font-medium">
+              {t("common.perMonth", { amount: fmt.money(perMonth, currency) })}
+              <span className="font-normal text-muted-foreground"> · {t("common.perWeek", { amount: fmt.money(perWeek, currency) })}</span>
+            </span>
+          </div>
+        )}
+
+        {/* Forecast based on the goal's deposit pace */}
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{t("goalCard.forecast")}</span>
+          <span
+            className={
+              forecast.state === "behind" || forecast.state === "no-progress"
+                ? "font-medium text-warning"
+                : forecast.state === "complete" ? "font-medium text-success" : "font-medium"
+            }
+          >
+            {t(`forecast.${forecast.state}`, { count: -(forecast.daysFromDeadline ?? 0) })}
+            {forecast.projectedDate && forecast.state !== "complete" && (
+              <span className="font-normal text-muted-foreground"> · {fmt.date(forecast.projectedDate)}</span>
+            )}
+          </span>
         </div>
-      </CardContent>
 
-      {/* Deposit dialog - allows users to add money to the goal */}
-      <DepositDialog
-        open={depositOpen}
-        onOpenChange={setDepositOpen}
-        onDeposit={async (amount) => {
-          await onDeposit(goal.id, amount);
-          setDepositOpen(false);
-        }}
-      />
+        {/* Recurring contribution summary */}
+        {goal.plan && (
+          <div className="text-sm text-muted-foreground">
+            {nextContribution
+              ? rich("goalCard.nextContribution", {
+                  amount: <span className="font-medium text-foreground">{fmt.money(goal.plan.amount, currency)}</span>,
+                  date: fmt.date(nextContribution),
+                  frequency: t(`frequency.${goal.plan.frequency}`).toLowerCase(),
+                })
+              : t("goalCard.planEnded")}
+          </div>
+        )}
 
-      {/* Edit dialog - allows users to modify goal details */}
-      <GoalForm
-        open={editOpen}
-        onOpenChange={setEditOpen}
-        mode="edit"
-        initial={goal}
-        onSubmit={async (values: GoalFormValues) => {
-          await onUpdate(goal.id, values);
-          setEditOpen(false);
-        }}
-      />
+        {/* Action buttons and their dialogs */}
+        <GoalActions goal={goal} {...actions} className="pt-2" />
+      </CardContent>
     </Card>
   );
 }
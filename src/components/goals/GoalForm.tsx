@@ -9,7 +9,7 @@
  * Importance: Ensures consistent data structure and validation across the app
  */
 
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -21,23 +21,33 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { CalendarIcon } from "lucide-react";
+import { Link } from "react-router-dom";
 import type { Goal } from "@/types/goal";
-
-/**
- * Form validation schema using Zod
- * Defines the structure and validation rules for goal data
- */
-const formSchema = z.object({
-  name: z.string().min(1, "Goal name is required"),
-  targetAmount: z.number().min(1, "Target amount must be at least $1"),
-  category: z.string().min(1, "Category is required"),
-  deadline: z.string().min(1, "Deadline is required"),
-});
+import { goalFormSchema, type GoalFormValues } from "@/lib/goal-schema";
+import { useCategories } from "@/api/categories";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey } from "@/i18n";
+import { useSettings } from "@/api/settings";
+import { CURRENCY_CODES, getGoalCurrency, getMinorStep, toMajorUnits, toMinorUnits } from "@/lib/currency";
+import { ValidationError } from "@/api/errors";
+import { CategoryBadge } from "@/components/categories/CategoryBadge";
 
 // Export the form values type for use in other components
-export type GoalFormValues = z.infer<typeof formSchema>;
+export type { GoalFormValues };
+
+// The form takes the target as a decimal amount (12.50) and submits it in minor units (1250)
+// Same rules as goalFormSchema, with messages in the user's language
+const createGoalFormInputSchema = (t: (key: MessageKey) => string) =>
+  goalFormSchema.extend({
+    name: z.string().trim().min(1, t("goalForm.nameRequired")),
+    targetAmount: z.number().min(1, t("goalForm.targetAmountMin")),
+    category: z.string().trim().min(1, t("goalForm.categoryRequired")),
+    deadline: z.string().min(1, t("goalForm.deadlineRequired")),
+  });
 
 /**
  * Props interface for GoalForm component
@@ -56,18 +66,32 @@ interface GoalFormProps {
  * Features:
  * - Form validation with real-time error messages
  * - Date picker for deadline selection
- * - Category selection dropdown
+ * - Category selection dropdown backed by the categories collection
+ * - Currency selection (new goals start in the base currency; fixed after creation)
  * - Amount validation with currency formatting
  * - Loading states during submission
  * - Success/error handling
  */
 export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFormProps) {
+  // Categories come from the /categories collection
+  const { data: categories = [] } = useCategories();
+  // A goal may still use a name that isn't in the collection; keep it selectable so editing shows it
+  const legacyCategory = initial && !categories.some((c) => c.name === initial.category) ? initial.category : undefined;
+  const { baseCurrency } = useExchangeRates();
+  const fmt = useFormatter(); // Deadline shown in the user's date format
+  const { data: settings } = useSettings(); // First day of the week for the calendar
+  const { t } = useTranslation(); // Labels and validation messages in the chosen language
+  const schema = useMemo(() => createGoalFormInputSchema(t), [t]);
+  // Likewise a currency set through the API may not be in the list
+  const currencies = initial && !CURRENCY_CODES.includes(getGoalCurrency(initial)) ? [...CURRENCY_CODES, getGoalCurrency(initial)] : CURRENCY_CODES;
+
   // Initialize form with validation schema
   const form = useForm<GoalFormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       name: "",
-      targetAmount: 1000,
+      targetAmount: 1000, // Decimal amount while editing
+      currency: baseCurrency,
       category: "",
       deadline: format(new Date(), "yyyy-MM-dd"),
     },
@@ -81,7 +105,8 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
     if (mode === "edit" && initial) {
       form.reset({
         name: initial.name,
-        targetAmount: initial.targetAmount,
+        targetAmount: toMajorUnits(initial.targetAmount, getGoalCurrency(initial)),
+        currency: getGoalCurrency(initial),
         category: initial.category,
         deadline: initial.deadline,
       });
@@ -94,10 +119,17 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
    */
   const handleSubmit = async (values: GoalFormValues) => {
     try {
-      await onSubmit(values);
+      await onSubmit({ ...values, targetAmount: toMinorUnits(values.targetAmount, values.currency) });
       form.reset(); // Reset form after successful submission
     } catch (error) {
-      // Error handling is typically done by the parent component
+      // The parent shows a toast; validation errors are also shown next to the fields they concern
+      if (error instanceof ValidationError) {
+        for (const [field, message] of Object.entries(error.fieldErrors)) {
+          if (field in goalFormSchema.shape) {
+            form.setError(field as keyof GoalFormValues, { type: "server", message });
+          }
+        }
+      }
       console.error("Form submission error:", error);
     }
   };
@@ -106,11 +138,9 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>{mode === "create" ? "Create Goal" : "Edit Goal"}</DialogTitle>
+          <DialogTitle>{mode === "create" ? t("goalForm.createTitle") : t("goalForm.editTitle")}</DialogTitle>
           <DialogDescription>
-            {mode === "create" 
-              ? "Set up a new savings goal with a target amount and deadline." 
-              : "Update your goal details and save changes."}
+            {mode === "create" ? t("goalForm.createDescription") : t("goalForm.editDescription")}
           </DialogDescription>
         </DialogHeader>
 
@@ -122,12 +152,12 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
               name="name"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Goal Name</FormLabel>
+                  <FormLabel>{t("goalForm.name")}</FormLabel>
                   <FormControl>
-                    <Input placeholder="e.g., Emergency Fund" {...field} />
+                    <Input placeholder={t("goalForm.namePlaceholder")} {...field} />
                   </FormControl>
                   <FormDescription>
-                    A descriptive name for your savings goal
+                    {t("goalForm.nameHint")}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -140,17 +170,45 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
               name="targetAmount"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Target Amount</FormLabel>
+                  <FormLabel>{t("goalForm.targetAmount")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
                       placeholder="1000"
+                      step={getMinorStep(form.watch("currency"))}
                       {...field}
                       onChange={(e) => field.onChange(Number(e.target.value))}
                     />
                   </FormControl>
                   <FormDescription>
-                    The total amount you want to save
+                    {t("goalForm.targetAmountHint")}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Currency Field */}
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("goalForm.currency")}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={mode === "edit"}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {currencies.map((code) => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {mode === "edit" ? t("goalForm.currencyHintEdit") : t("goalForm.currencyHintCreate")}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -163,25 +221,26 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
               name="category"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Category</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormLabel>{t("goalForm.category")}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select a category" />
+                        <SelectValue placeholder={t("goalForm.categoryPlaceholder")} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="Emergency">Emergency Fund</SelectItem>
-                      <SelectItem value="Travel">Travel</SelectItem>
-                      <SelectItem value="Home">Home</SelectItem>
-                      <SelectItem value="Car">Car</SelectItem>
-                      <SelectItem value="Education">Education</SelectItem>
-                      <SelectItem value="Retirement">Retirement</SelectItem>
-                      <SelectItem value="Other">Other</SelectItem>
+                      {categories.map((c) => (
+                        <SelectItem key={c.id} value={c.name}>
+                          <CategoryBadge name={c.name} categories={categories} />
+                        </SelectItem>
+                      ))}
+                      {legacyCategory && (
+                        <SelectItem value={legacyCategory}>{legacyCategory}</SelectItem>
+                      )}
                     </SelectContent>
                   </Select>
                   <FormDescription>
-                    Choose a category for better organization
+                    {t("goalForm.categoryHint")} <Link to="/categories" className="underline">{t("goalForm.manageCategories")}</Link>
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -194,7 +253,7 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
               name="deadline"
               render={({ field }) => (
                 <FormItem className="flex flex-col">
-                  <FormLabel>Deadline</FormLabel>
+                  <FormLabel>{t("goalForm.deadline")}</FormLabel>
                   <Popover>
                     <PopoverTrigger asChild>
                       <FormControl>
@@ -206,9 +265,9 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
                           )}
                         >
                           {field.value ? (
-                            format(new Date(field.value), "PPP")
+                            fmt.date(field.value)
                           ) : (
-                            <span>Pick a date</span>
+                            <span>{t("goalForm.deadlinePlaceholder")}</span>
                           )}
                           <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
                         </Button>
@@ -217,7 +276,8 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
                     <PopoverContent className="w-auto p-0" align="start">
                       <Calendar
                         mode="single"
-                        selected={new Date(field.value)}
+                        weekStartsOn={settings?.weekStartsOn}
+                        selected={parseISO(field.value)} // Local day, like the label above
                         onSelect={(date) => {
                           if (date) {
                             field.onChange(format(date, "yyyy-MM-dd"));
@@ -231,7 +291,7 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
                     </PopoverContent>
                   </Popover>
                   <FormDescription>
-                    Your target date to achieve this goal
+                    {t("goalForm.deadlineHint")}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -240,7 +300,7 @@ export function GoalForm({ open, onOpenChange, mode, initial, onSubmit }: GoalFo
 
             <DialogFooter>
               <Button type="submit" disabled={form.formState.isSubmitting}>
-                {form.formState.isSubmitting ? "Saving..." : "Save Goal"}
+                {form.formState.isSubmitting ? t("goalForm.saving") : t("goalForm.save")}
               </Button>
             </DialogFooter>
           </form>
@@ -0,0 +1,71 @@
+/**
+ * GoalNotes Component
+ *
+ * Free-form notes for a goal (why it matters, where the money is kept, ...),
+ * edited in place and saved with the goal's version so edits from another device aren't overwritten.
+ *
+ * Purpose: Keeps context about a goal next to its numbers
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useTranslation } from "@/hooks/use-translation";
+import { GOAL_NOTES_MAX_LENGTH } from "@/lib/goal-schema";
+import type { Goal } from "@/types/goal";
+
+/**
+ * Props interface for GoalNotes component
+ */
+interface GoalNotesProps {
+  goal: Goal; // Goal whose notes are edited
+  onSave: (notes: string) => Promise<void>; // Saves the notes; rejects when the save failed
+}
+
+export function GoalNotes({ goal, onSave }: GoalNotesProps) {
+  const saved = goal.notes ?? "";
+  const [draft, setDraft] = useState(saved); // Text being edited
+  const [isSaving, setIsSaving] = useState(false); // Tracks submission state
+  const { t } = useTranslation(); // Labels in the chosen language
+
+  // Pick up notes saved elsewhere (another tab, or the latest version loaded after a conflict)
+  useEffect(() => setDraft(saved), [saved]);
+
+  const changed = draft.trim() !== saved;
+
+  // Save the trimmed notes; the draft is kept when saving fails so nothing typed is lost
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft.trim());
+    } catch {
+      // The caller has already reported the error
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        maxLength={GOAL_NOTES_MAX_LENGTH}
+        rows={5}
+        placeholder={t("notes.placeholder")}
+        aria-label={t("notes.label")}
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{draft.length}/{GOAL_NOTES_MAX_LENGTH}</span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setDraft(saved)} disabled={!changed || isSaving}>
+            {t("notes.discard")}
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!changed || isSaving}>
+            {isSaving ? t("common.saving") : t("notes.save")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
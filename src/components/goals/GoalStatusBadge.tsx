@@ -0,0 +1,31 @@
+/**
+ * GoalStatusBadge Component
+ *
+ * Shows a goal's status (Active, Due soon, Overdue, Completed) color coded by its tone.
+ *
+ * Purpose: Same status styling on the goal card and the goal detail page
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { useTranslation } from "@/hooks/use-translation";
+import type { GoalStatus } from "@/lib/forecast";
+
+/**
+ * Props interface for GoalStatusBadge component
+ */
+interface GoalStatusBadgeProps {
+  status: GoalStatus; // Status computed from the goal and its forecast
+}
+
+export function GoalStatusBadge({ status }: GoalStatusBadgeProps) {
+  const { t } = useTranslation(); // The label itself stays English; it doubles as the status filter value
+  return (
+    // Status badge with color coding based on goal status
+    <Badge
+      variant={status.tone === "destructive" ? "destructive" : "secondary"}
+      className={status.tone === "warning" ? "text-warning border border-warning/30" : status.tone === "success" ? "text-success border border-success/30" : ""}
+    >
+      {t(`status.${status.label}`)}
+    </Badge>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * GoalToolbar Component
+ *
+ * Search box, category, status and deadline filters and sort order for the goals grid.
+ * The values live in the URL (see useGoalQuery), this component only edits them.
+ *
+ * Purpose: Lets users narrow a long list of goals down to the ones they care about
+ */
+
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GOAL_STATUSES, type GoalStatusLabel } from "@/lib/forecast";
+import { sameCategory } from "@/types/category";
+import { EMPTY_GOAL_QUERY, GOAL_SORT_KEYS, isEmptyGoalQuery, type GoalQuery, type GoalSortKey } from "@/lib/goal-query";
+import { useTranslation } from "@/hooks/use-translation";
+
+/**
+ * Props interface for GoalToolbar component
+ */
+interface GoalToolbarProps {
+  query: GoalQuery; // Current search, filters and sort
+  onChange: (patch: Partial<GoalQuery>) => void; // Called with the fields that changed
+  categories: string[]; // Category names offered in the filter
+}
+
+// Select items can't have an empty value, so "no filter" uses this placeholder
+const ANY = "any";
+
+export function GoalToolbar({ query, onChange, categories }: GoalToolbarProps) {
+  const descending = query.dir === "desc";
+  const { t } = useTranslation(); // Filter values stay English in the URL; only their labels are translated
+  // Links may spell the category differently ("travel" vs "Travel"); show the matching option
+  const category = categories.find((name) => sameCategory(name, query.category)) ?? query.category;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="search">
+      {/* Name search */}
+      <div className="relative min-w-[12rem] flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" aria-hidden />
+        <Input
+          value={query.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+          placeholder={t("toolbar.search")}
+          aria-label={t("toolbar.searchLabel")}
+          className="pl-9"
+        />
+      </div>
+
+      {/* Category filter */}
+      <Select value={category || ANY} onValueChange={(v) => onChange({ category: v === ANY ? "" : v })}>
+        <SelectTrigger className="w-40" aria-label={t("toolbar.categoryLabel")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("toolbar.allCategories")}</SelectItem>
+          {categories.map((name) => (
+            <SelectItem key={name} value={name}>{name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Status filter */}
+      <Select value={query.status || ANY} onValueChange={(v) => onChange({ status: v === ANY ? "" : (v as GoalStatusLabel) })}>
+        <SelectTrigger className="w-36" aria-label={t("toolbar.statusLabel")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("toolbar.anyStatus")}</SelectItem>
+          {GOAL_STATUSES.map((status) => (
+            <SelectItem key={status} value={status}>{t(`status.${status}`)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Deadline range; either end can be left open */}
+      <Input
+        type="date"
+        value={query.deadlineFrom}
+        max={query.deadlineTo || undefined}
+        onChange={(e) => onChange({ deadlineFrom: e.target.value })}
+        aria-label={t("toolbar.dueFrom")}
+        title={t("toolbar.dueFrom")}
+        className="w-40"
+      />
+      <Input
+        type="date"
+        value={query.deadlineTo}
+        min={query.deadlineFrom || undefined}
+        onChange={(e) => onChange({ deadlineTo: e.target.value })}
+        aria-label={t("toolbar.dueTo")}
+        title={t("toolbar.dueTo")}
+        className="w-40"
+      />
+
+      {/* Sort field and direction */}
+      <Select value={query.sort || ANY} onValueChange={(v) => onChange({ sort: v === ANY ? "" : (v as GoalSortKey) })}>
+        <SelectTrigger className="w-40" aria-label={t("toolbar.sortLabel")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("toolbar.dateAdded")}</SelectItem>
+          {GOAL_SORT_KEYS.map((key) => (
+            <SelectItem key={key} value={key}>{t(`sort.${key}`)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => onChange({ dir: descending ? "asc" : "desc" })}
+        disabled={!query.sort}
+        aria-label={descending ? t("toolbar.sortAscending") : t("toolbar.sortDescending")}
+        title={descending ? t("toolbar.descending") : t("toolbar.ascending")}
+      >
+        {descending ? <ArrowDownWideNarrow className="h-4 w-4" /> : <ArrowUpNarrowWide className="h-4 w-4" />}
+      </Button>
+
+      {/* Back to the full, unsorted list */}
+      {!isEmptyGoalQuery(query) && (
+        <Button variant="ghost" onClick={() => onChange(EMPTY_GOAL_QUERY)}>
+          {t("toolbar.clear")}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * OverallProgressChart Component
+ *
+ * Dashboard burn-up chart for all goals combined: the total saved over time
+ * against the total an even pace would have saved to meet every deadline.
+ * Amounts are converted into the base currency; goals without an exchange rate are left out.
+ *
+ * Purpose: Answers "am I saving fast enough overall?" without opening each goal
+ */
+
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BurnUpChart } from "./BurnUpChart";
+import { useTransactions } from "@/api/transactions";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useTranslation } from "@/hooks/use-translation";
+import { getBurnUp } from "@/lib/history";
+import { goalsInBaseCurrency, ledgerInBaseCurrency } from "@/lib/currency";
+import type { Goal } from "@/types/goal";
+
+/**
+ * Props interface for OverallProgressChart component
+ */
+interface OverallProgressChartProps {
+  goals: Goal[]; // Goals to combine
+}
+
+export function OverallProgressChart({ goals }: OverallProgressChartProps) {
+  const { data: ledger = [] } = useTransactions(); // Shared ledger cache, also used by the goal cards
+  const { table, baseCurrency } = useExchangeRates();
+  const { t } = useTranslation();
+  const converted = useMemo(() => goalsInBaseCurrency(goals, table).goals, [goals, table]);
+  const data = useMemo(() => getBurnUp(converted, ledgerInBaseCurrency(ledger, goals, table)), [converted, ledger, goals, table]);
+  const totalTarget = converted.reduce((sum, goal) => sum + goal.targetAmount, 0);
+
+  // Nothing to chart without goals (or without any that can be converted)
+  if (converted.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{t("progressChart.title")}</CardTitle>
+        <CardDescription>{t("progressChart.description")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <BurnUpChart data={data} target={totalTarget} currency={baseCurrency} className="aspect-auto h-64 w-full" />
+      </CardContent>
+    </Card>
+  );
+}
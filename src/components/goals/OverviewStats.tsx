@@ -8,9 +8,15 @@
  * Importance: Central UI element for displaying goal overview
  */
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { Goal } from "@/types/goal";
+import { Button } from "@/components/ui/button";
+import { ExchangeRatesDialog } from "@/components/currency/ExchangeRatesDialog";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { getGoalCurrency, goalsInBaseCurrency } from "@/lib/currency";
+import { Goal, getRequiredContribution } from "@/types/goal";
 
 /**
  * Props interface for OverviewStats component
@@ -28,19 +34,29 @@ interface OverviewStatsProps {
  * - Total target amount across all goals
  * - Overall progress percentage
  * - Number of completed goals
+ * - Combined monthly saving needed to meet every deadline
+ * - Amounts converted into the base currency with the exchange-rate table
  * - Visual representation of key metrics
  */
 export function OverviewStats({ goals }: OverviewStatsProps) {
+  const { table, baseCurrency } = useExchangeRates();
+  const fmt = useFormatter(); // Totals are formatted in the base currency
+  const { t, rich } = useTranslation(); // Labels in the chosen language
+  const [ratesOpen, setRatesOpen] = useState(false); // Controls the exchange-rate dialog
+
   /**
    * Memoized calculation of statistics
    * Prevents recalculation on every render
+   * Sums are taken in the base currency; goals without a rate are left out of them
    */
   const stats = useMemo(() => {
+    const { goals: converted, missing } = goalsInBaseCurrency(goals, table);
     const totalGoals = goals.length;
-    const totalSaved = goals.reduce((sum, goal) => sum + goal.savedAmount, 0);
-    const totalTarget = goals.reduce((sum, goal) => sum + goal.targetAmount, 0);
+    const totalSaved = converted.reduce((sum, goal) => sum + goal.savedAmount, 0);
+    const totalTarget = converted.reduce((sum, goal) => sum + goal.targetAmount, 0);
     const overallProgress = totalTarget > 0 ? (totalSaved / totalTarget) * 100 : 0;
     const completedGoals = goals.filter(goal => goal.savedAmount >= goal.targetAmount).length;
+    const requiredPerMonth = converted.reduce((sum, goal) => sum + getRequiredContribution(goal, "month"), 0);
 
     return {
       totalGoals,
@@ -48,17 +64,13 @@ export function OverviewStats({ goals }: OverviewStatsProps) {
       totalTarget,
       overallProgress,
       completedGoals,
+      requiredPerMonth,
+      missing, // Currencies that still need a rate
     };
-  }, [goals]);
+  }, [goals, table]);
 
-  /**
-   * Formats currency for display
-   * @param amount - The amount to format
-   * @returns Formatted currency string
-   */
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(amount);
-  };
+  // Currencies in use, offered first in the rate table
+  const currencies = [...new Set(goals.map(getGoalCurrency))];
 
   // Don't render if no goals exist
   if (goals.length === 0) {
@@ -66,58 +78,82 @@ export function OverviewStats({ goals }: OverviewStatsProps) {
   }
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-      {/* Total Goals Card */}
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Goals</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{stats.totalGoals}</div>
-          <p className="text-xs text-muted-foreground">
-            Active savings goals
-          </p>
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {/* Total Goals Card */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t("overview.totalGoals")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.totalGoals}</div>
+            <p className="text-xs text-muted-foreground">
+              {t("overview.totalGoalsHint")}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Total Saved Card */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t("overview.totalSaved")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{fmt.money(stats.totalSaved, baseCurrency)}</div>
+            <p className="text-xs text-muted-foreground">
+              {t("overview.totalSavedHint")}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Total Target Card */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t("overview.totalTarget")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{fmt.money(stats.totalTarget, baseCurrency)}</div>
+            <p className="text-xs text-muted-foreground">
+              {t("overview.totalTargetHint")}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Overall Progress Card */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{t("overview.overallProgress")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.overallProgress.toFixed(1)}%</div>
+            <p className="text-xs text-muted-foreground">
+              {t("overview.completed", { completed: stats.completedGoals, count: stats.totalGoals })}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
 
-      {/* Total Saved Card */}
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Saved</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{formatCurrency(stats.totalSaved)}</div>
-          <p className="text-xs text-muted-foreground">
-            across all goals
-          </p>
-        </CardContent>
-      </Card>
+      {/* Base currency of the totals and goals they can't include yet */}
+      <div className="flex flex-wrap items-center gap-x-2 text-sm text-muted-foreground">
+        <span>
+          {t("overview.totalsIn", { currency: baseCurrency })}
+          {stats.missing.length > 0 && ` ${t("overview.missingRates", { currencies: stats.missing.join(", ") })}`}
+        </span>
+        <Button variant="link" className="h-auto p-0" onClick={() => setRatesOpen(true)}>
+          {t("overview.exchangeRates")}
+        </Button>
+      </div>
 
-      {/* Total Target Card */}
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Target</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{formatCurrency(stats.totalTarget)}</div>
-          <p className="text-xs text-muted-foreground">
-            combined goal targets
-          </p>
-        </CardContent>
-      </Card>
+      {/* Combined monthly saving needed across all unfinished goals */}
+      {stats.requiredPerMonth > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {rich("overview.requiredPerMonth", {
+            amount: <span className="font-semibold text-foreground">{t("common.perMonth", { amount: fmt.money(stats.requiredPerMonth, baseCurrency) })}</span>,
+          })}
+        </p>
+      )}
 
-      {/* Overall Progress Card */}
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Overall Progress</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{stats.overallProgress.toFixed(1)}%</div>
-          <p className="text-xs text-muted-foreground">
-            {stats.completedGoals} of {stats.totalGoals} goals completed
-          </p>
-        </CardContent>
-      </Card>
+      <ExchangeRatesDialog open={ratesOpen} onOpenChange={setRatesOpen} currencies={currencies} />
     </div>
   );
 }
@@ -0,0 +1,124 @@
+/**
+ * PendingContributions Component
+ *
+ * Lists scheduled contributions that have come due and lets the user
+ * confirm or dismiss them in bulk. Confirmed entries are added to the
+ * goal's saved amount; dismissed ones are removed from the ledger.
+ *
+ * Purpose: Closes the loop between a contribution plan and actual deposits
+ * Importance: Nothing scheduled counts toward a goal until confirmed here
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useConfirmContributions, useDismissContributions, usePendingContributions } from "@/api/contributions";
+import { sortByDateDesc } from "@/types/transaction";
+import { getGoalCurrency } from "@/lib/currency";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Goal } from "@/types/goal";
+
+/**
+ * Props interface for PendingContributions component
+ */
+interface PendingContributionsProps {
+  goals: Goal[]; // Used to show goal names and currencies next to each entry
+}
+
+/**
+ * PendingContributions Component - Bulk confirmation of scheduled deposits
+ *
+ * Features:
+ * - Everything selected by default
+ * - Confirm or dismiss the selection in one action
+ * - Hidden when nothing is pending
+ */
+export function PendingContributions({ goals }: PendingContributionsProps) {
+  const { data: pending = [] } = usePendingContributions();
+  const confirm = useConfirmContributions();
+  const dismiss = useDismissContributions();
+  const fmt = useFormatter(); // Dates and amounts in the user's format
+  const { t, errorMessage } = useTranslation();
+  const [selected, setSelected] = useState<Set<string>>(new Set()); // IDs of selected entries
+
+  const entries = useMemo(() => sortByDateDesc(pending), [pending]);
+
+  // Select every entry whenever the pending list changes
+  useEffect(() => {
+    setSelected(new Set(pending.map((t) => t.id)));
+  }, [pending]);
+
+  if (entries.length === 0) return null;
+
+  const chosen = entries.filter((t) => selected.has(t.id));
+  const busy = confirm.isPending || dismiss.isPending;
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    try {
+      await confirm.mutateAsync(chosen);
+      toast.success(t("pending.confirmed", { count: chosen.length }));
+    } catch (e) {
+      toast.error(errorMessage(e, t("pending.confirmFailed")));
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await dismiss.mutateAsync(chosen);
+      toast.success(t("pending.dismissed", { count: chosen.length }));
+    } catch (e) {
+      toast.error(errorMessage(e, t("pending.dismissFailed")));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-base font-semibold">{t("pending.title", { count: entries.length })}</CardTitle>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleDismiss} disabled={chosen.length === 0 || busy}>
+            {t("pending.dismiss")}
+          </Button>
+          <Button size="sm" onClick={handleConfirm} disabled={chosen.length === 0 || busy}>
+            {t("pending.confirm")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {entries.map((tx) => {
+            const goal = goals.find((g) => g.id === tx.goalId);
+            return (
+              <li key={tx.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  id={`pending-${tx.id}`}
+                  checked={selected.has(tx.id)}
+                  onCheckedChange={(checked) => toggle(tx.id, checked === true)}
+                />
+                <label htmlFor={`pending-${tx.id}`} className="flex flex-1 justify-between gap-2">
+                  <span>
+                    {goal?.name ?? t("pending.unknownGoal")}
+                    <span className="text-muted-foreground"> · {fmt.date(tx.date)}</span>
+                  </span>
+                  <span className="font-medium">{fmt.money(tx.amount, getGoalCurrency(goal ?? {}))}</span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
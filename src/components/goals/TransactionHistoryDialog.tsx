@@ -0,0 +1,44 @@
+/**
+ * TransactionHistoryDialog Component
+ *
+ * A modal dialog listing every deposit and withdrawal recorded against a goal.
+ * Entries can be corrected (amount and note) or removed; the goal's
+ * saved amount is reconciled by the API layer after each change.
+ *
+ * Purpose: Gives users a history of deposits and withdrawals instead of a single running total
+ * Importance: Makes the ledger visible and correctable
+ */
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TransactionList } from "./TransactionList";
+import { useTranslation } from "@/hooks/use-translation";
+import type { Goal } from "@/types/goal";
+
+/**
+ * Props interface for TransactionHistoryDialog component
+ */
+interface TransactionHistoryDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  goal: Goal; // Goal whose ledger is shown
+}
+
+/**
+ * TransactionHistoryDialog Component - Shows a goal's ledger in a modal
+ */
+export function TransactionHistoryDialog({ open, onOpenChange, goal }: TransactionHistoryDialogProps) {
+  const { t } = useTranslation();
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{t("history.title")}</DialogTitle>
+          <DialogDescription>{t("history.description", { name: goal.name })}</DialogDescription>
+        </DialogHeader>
+
+        {/* Only fetch the ledger while the dialog is open */}
+        <TransactionList goal={goal} enabled={open} className="max-h-80 overflow-y-auto" />
+      </DialogContent>
+    </Dialog>
+  );
+}
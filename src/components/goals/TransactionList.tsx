@@ -0,0 +1,151 @@
+/**
+ * TransactionList Component
+ *
+ * Lists every deposit, withdrawal and transfer recorded against a goal, newest first.
+ * Entries can be corrected (amount and note) or removed; the goal's
+ * saved amount is reconciled by the API layer after each change.
+ *
+ * Purpose: Shared ledger view for the history dialog and the goal detail page
+ * Importance: Makes the ledger visible and correctable
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useDeleteTransaction, useTransactions, useUpdateTransaction } from "@/api/transactions";
+import { useGoals } from "@/api/goals";
+import { cn } from "@/lib/utils";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { getGoalCurrency, getMinorStep, parseAmount, toMajorUnits } from "@/lib/currency";
+import { Transaction, isOutgoing, isPending, isTransfer, sortByDateDesc } from "@/types/transaction";
+import type { Goal } from "@/types/goal";
+
+/**
+ * Props interface for TransactionList component
+ */
+interface TransactionListProps {
+  goal: Goal; // Goal whose ledger is shown
+  enabled?: boolean; // Set to false to defer loading, e.g. while a dialog is closed
+  className?: string; // Extra classes for the list, e.g. a max height
+}
+
+/**
+ * A single ledger row with inline editing
+ * Amounts are in the goal's currency
+ */
+function TransactionRow({ tx, currency, counterpartName }: { tx: Transaction; currency: string; counterpartName?: string }) {
+  const updateTx = useUpdateTransaction();
+  const deleteTx = useDeleteTransaction();
+  const fmt = useFormatter(); // Dates and amounts in the user's format
+  const { t, errorMessage } = useTranslation();
+  const [editing, setEditing] = useState(false); // Whether the row shows edit inputs
+  const [amount, setAmount] = useState(String(toMajorUnits(tx.amount, currency))); // Draft decimal amount while editing
+  const [note, setNote] = useState(tx.note); // Draft note while editing
+
+  const busy = updateTx.isPending || deleteTx.isPending;
+  const minorAmount = parseAmount(amount, currency); // Draft in minor units; undefined while invalid
+  const valid = minorAmount !== undefined;
+
+  // Save the edited entry
+  const handleSave = async () => {
+    if (!valid) return;
+    try {
+      await updateTx.mutateAsync({ tx, data: { amount: minorAmount, note: note.trim() } });
+      toast.success(t("ledger.updated"));
+      setEditing(false);
+    } catch (e) {
+      toast.error(errorMessage(e, t("ledger.updateFailed")));
+    }
+  };
+
+  // Remove the entry from the ledger
+  const handleDelete = async () => {
+    try {
+      await deleteTx.mutateAsync(tx);
+      toast.success(t("ledger.deleted"));
+    } catch (e) {
+      toast.error(errorMessage(e, t("ledger.deleteFailed")));
+    }
+  };
+
+  if (editing) {
+    return (
+      <li className="space-y-2 rounded-md border p-3">
+        <div className="grid grid-cols-2 gap-2">
+          <Input type="number" min={getMinorStep(currency)} step={getMinorStep(currency)} value={amount} onChange={(e) => setAmount(e.target.value)} aria-label={t("ledger.amount")} />
+          <Input placeholder={t("ledger.note")} value={note} onChange={(e) => setNote(e.target.value)} aria-label={t("ledger.note")} />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => setEditing(false)} disabled={busy}>{t("common.cancel")}</Button>
+          <Button size="sm" onClick={handleSave} disabled={!valid || busy}>{t("common.save")}</Button>
+        </div>
+      </li>
+    );
+  }
+
+  const isWithdrawal = tx.type === "withdrawal";
+  const transfer = isTransfer(tx);
+
+  return (
+    <li className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+      <div>
+        <div className="flex items-center gap-2">
+          {/* Withdrawals are shown in red with their reason so drops in the balance stand out */}
+          <span className={isWithdrawal ? "font-medium text-destructive" : "font-medium"}>
+            {isOutgoing(tx) ? "−" : "+"}{fmt.money(tx.amount, currency)}
+          </span>
+          {isWithdrawal && tx.reason && (
+            <Badge variant="outline" className="border-destructive/30 text-destructive">{t(`reason.${tx.reason}`)}</Badge>
+          )}
+          {isPending(tx) && <Badge variant="secondary">{t("ledger.pending")}</Badge>}
+          {/* Transfers name the goal on the other side of the linked entry */}
+          {transfer && (
+            <Badge variant="outline">
+              {t(tx.type === "transfer-out" ? "ledger.to" : "ledger.from", { name: counterpartName ?? t("ledger.deletedGoal") })}
+            </Badge>
+          )}
+        </div>
+        <div className="text-muted-foreground">
+          {fmt.date(tx.date)}
+          {/* Plan entries store no note of their own, so they are labelled in the reader's language */}
+          {tx.note ? <> · {tx.note}</> : tx.source === "plan" && <> · {t("pending.planNote")}</>}
+        </div>
+      </div>
+      <div className="flex gap-1">
+        {!transfer && <Button size="sm" variant="ghost" onClick={() => setEditing(true)} disabled={busy}>{t("common.edit")}</Button>}
+        <Button size="sm" variant="ghost" className="text-destructive" onClick={handleDelete} disabled={busy}>{t("common.delete")}</Button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * TransactionList Component - Lists a goal's ledger
+ *
+ * Features:
+ * - Newest entries first
+ * - Withdrawals highlighted with their reason
+ * - Transfers linked to the other goal (deleting one removes both legs)
+ * - Inline editing of amount and note
+ * - Deleting entries (saved amount is reconciled)
+ */
+export function TransactionList({ goal, enabled = true, className }: TransactionListProps) {
+  const { data: transactions = [], isLoading, error } = useTransactions(goal.id, enabled);
+  const { data: goals = [] } = useGoals(); // Used to name the other side of transfers
+  const { t } = useTranslation();
+
+  if (isLoading) return <div className="text-sm text-muted-foreground">{t("ledger.loading")}</div>;
+  if (error) return <div className="text-sm text-destructive">{t("ledger.loadFailed")}</div>;
+  if (transactions.length === 0) return <div className="text-sm text-muted-foreground">{t("ledger.empty")}</div>;
+
+  return (
+    <ul className={cn("space-y-2", className)}>
+      {sortByDateDesc(transactions).map((tx) => (
+        <TransactionRow key={tx.id} tx={tx} currency={getGoalCurrency(goal)} counterpartName={goals.find((g) => g.id === tx.counterpartGoalId)?.name} />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * TransferDialog Component
+ *
+ * A modal dialog for moving savings from one goal into another.
+ * The transfer is written as a single operation by the API layer and
+ * shows up as linked entries in both goals' histories.
+ *
+ * Purpose: Handles the transfer flow with destination and amount validation
+ * Importance: Lets users reallocate savings without two unrelated edits
+ */
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useGoals } from "@/api/goals";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { convert, getGoalCurrency, getMinorStep, parseAmount, toMajorUnits } from "@/lib/currency";
+import type { Goal } from "@/types/goal";
+
+/**
+ * Props interface for TransferDialog component
+ */
+interface TransferDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  goal: Goal; // Goal the money is taken from
+  onTransfer: (toGoalId: string, amount: number, note: string, receivedAmount?: number) => Promise<void> | void; // Handler for transfer submission, amounts in minor units
+}
+
+/**
+ * TransferDialog Component - Handles transfers between goals
+ *
+ * Features:
+ * - Destination picker listing every other goal
+ * - Amount validation (positive and not more than the saved amount)
+ * - Optional note shared by both ledger entries
+ * - Conversion with the exchange-rate table when the destination uses another currency
+ * - Loading state during submission
+ */
+export function TransferDialog({ open, onOpenChange, goal, onTransfer }: TransferDialogProps) {
+  // Other goals are read from the shared goals cache
+  const { data: goals = [] } = useGoals();
+  const destinations = goals.filter((g) => g.id !== goal.id);
+
+  // Form state
+  const [toGoalId, setToGoalId] = useState(""); // Selected destination goal
+  const [amount, setAmount] = useState(""); // Stores the transfer amount as string
+  const [note, setNote] = useState(""); // Optional note stored on both entries
+  const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+  const { table } = useExchangeRates();
+
+  // Amounts are entered in this goal's currency; the destination is credited in its own
+  const currency = getGoalCurrency(goal);
+  const fmt = useFormatter();
+  const { t } = useTranslation(); // Labels in the chosen language
+  const destination = destinations.find((g) => g.id === toGoalId);
+  const toCurrency = destination ? getGoalCurrency(destination) : currency;
+
+  const minorAmount = parseAmount(amount, currency); // Typed amount in minor units; undefined while invalid
+  const exceedsSaved = minorAmount !== undefined && minorAmount > goal.savedAmount;
+  const received = toCurrency === currency || minorAmount === undefined ? undefined : convert(minorAmount, currency, toCurrency, table);
+  const missingRate = toCurrency !== currency && minorAmount !== undefined && received === undefined; // Can't tell what the destination would get
+  const valid = toGoalId !== "" && minorAmount !== undefined && !exceedsSaved && !missingRate && received !== 0; // 0 when too small to convert
+
+  /**
+   * Handles transfer submission
+   * Validates input and calls the provided onTransfer handler
+   */
+  const handleTransfer = async () => {
+    if (!valid) return;
+
+    setIsSubmitting(true); // Set loading state
+
+    try {
+      await onTransfer(toGoalId, minorAmount, note, received); // Process the transfer
+      setToGoalId(""); // Reset form fields
+      setAmount("");
+      setNote("");
+      onOpenChange(false); // Close dialog
+    } catch (error) {
+      console.error("Transfer failed:", error);
+      // Error handling is typically done by parent component
+    } finally {
+      setIsSubmitting(false); // Reset loading state
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("transfer.title")}</DialogTitle>
+          <DialogDescription>
+            {t("transfer.description", { name: goal.name, amount: fmt.money(goal.savedAmount, currency) })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="transfer-goal">{t("transfer.destination")}</Label>
+            <Select value={toGoalId} onValueChange={setToGoalId}>
+              <SelectTrigger id="transfer-goal">
+                <SelectValue placeholder={t("transfer.destinationPlaceholder")} />
+              </SelectTrigger>
+              <SelectContent>
+                {destinations.map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    {g.name}
+                    {getGoalCurrency(g) !== currency && ` (${getGoalCurrency(g)})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {destinations.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t("transfer.noDestinations")}</p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transfer-amount">{t("common.amount", { currency })}</Label>
+            <Input
+              id="transfer-amount"
+              type="number"
+              placeholder={t("common.amountPlaceholder")}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min={getMinorStep(currency)}
+              max={toMajorUnits(goal.savedAmount, currency)}
+              step={getMinorStep(currency)}
+            />
+            {exceedsSaved && (
+              <p className="text-sm text-destructive">
+                {t("transfer.exceeds", { amount: fmt.money(goal.savedAmount, currency) })}
+              </p>
+            )}
+            {received !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                {t("transfer.receives", { name: destination?.name ?? "", amount: fmt.money(received, toCurrency) })}
+              </p>
+            )}
+            {missingRate && (
+              <p className="text-sm text-destructive">
+                {t("transfer.missingRate", { from: currency, to: toCurrency })}
+              </p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="transfer-note">{t("common.noteOptional")}</Label>
+            <Input
+              id="transfer-note"
+              placeholder={t("transfer.notePlaceholder")}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={handleTransfer}
+            disabled={!valid || isSubmitting}
+          >
+            {isSubmitting ? t("common.processing") : t("transfer.submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
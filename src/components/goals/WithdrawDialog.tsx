@@ -0,0 +1,153 @@
+/**
+ * WithdrawDialog Component
+ *
+ * A modal dialog for taking money out of a savings goal.
+ * Every withdrawal needs a reason so the goal's history explains
+ * why the saved amount went down.
+ *
+ * Purpose: Handles the withdrawal flow with amount and reason validation
+ * Importance: Keeps the ledger honest when money leaves a goal
+ */
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { WITHDRAWAL_REASONS, WithdrawalReason } from "@/types/transaction";
+import { getMinorStep, parseAmount, toMajorUnits } from "@/lib/currency";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+
+/**
+ * Props interface for WithdrawDialog component
+ */
+interface WithdrawDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  available: number; // Saved amount that can be withdrawn, in minor units
+  currency: string; // The goal's currency
+  onWithdraw: (amount: number, reason: WithdrawalReason, note: string) => Promise<void> | void; // Handler for withdrawal submission, amount in minor units
+}
+
+/**
+ * WithdrawDialog Component - Handles withdrawal functionality
+ *
+ * Features:
+ * - Amount validation (positive and not more than the saved amount)
+ * - Required reason selection
+ * - Optional note
+ * - Loading state during submission
+ */
+export function WithdrawDialog({ open, onOpenChange, available, currency, onWithdraw }: WithdrawDialogProps) {
+  const fmt = useFormatter(); // Money in the user's locale
+  const { t } = useTranslation(); // Labels in the chosen language
+
+  // Form state
+  const [amount, setAmount] = useState(""); // Stores the withdrawal amount as string
+  const [reason, setReason] = useState<WithdrawalReason | "">(""); // Selected reason, empty until chosen
+  const [note, setNote] = useState(""); // Optional note stored on the ledger entry
+  const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+
+  const minorAmount = parseAmount(amount, currency); // Typed amount in minor units; undefined while invalid
+  const exceedsSaved = minorAmount !== undefined && minorAmount > available;
+  const valid = minorAmount !== undefined && !exceedsSaved && reason !== "";
+
+  /**
+   * Handles withdrawal submission
+   * Validates input and calls the provided onWithdraw handler
+   */
+  const handleWithdraw = async () => {
+    if (!valid) return;
+
+    setIsSubmitting(true); // Set loading state
+
+    try {
+      await onWithdraw(minorAmount, reason as WithdrawalReason, note); // Process the withdrawal
+      setAmount(""); // Reset form fields
+      setReason("");
+      setNote("");
+      onOpenChange(false); // Close dialog
+    } catch (error) {
+      console.error("Withdrawal failed:", error);
+      // Error handling is typically done by parent component
+    } finally {
+      setIsSubmitting(false); // Reset loading state
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("withdraw.title")}</DialogTitle>
+          <DialogDescription>
+            {t("withdraw.description", { amount: fmt.money(available, currency) })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="withdraw-amount">{t("common.amount", { currency })}</Label>
+            <Input
+              id="withdraw-amount"
+              type="number"
+              placeholder={t("common.amountPlaceholder")}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              min={getMinorStep(currency)}
+              max={toMajorUnits(available, currency)}
+              step={getMinorStep(currency)}
+              autoFocus
+            />
+            {exceedsSaved && (
+              <p className="text-sm text-destructive">
+                {t("withdraw.exceeds", { amount: fmt.money(available, currency) })}
+              </p>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="withdraw-reason">{t("withdraw.reason")}</Label>
+            <Select value={reason} onValueChange={(v) => setReason(v as WithdrawalReason)}>
+              <SelectTrigger id="withdraw-reason">
+                <SelectValue placeholder={t("withdraw.reasonPlaceholder")} />
+              </SelectTrigger>
+              <SelectContent>
+                {WITHDRAWAL_REASONS.map((r) => (
+                  <SelectItem key={r} value={r}>{t(`reason.${r}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="withdraw-note">{t("common.noteOptional")}</Label>
+            <Input
+              id="withdraw-note"
+              placeholder={t("withdraw.notePlaceholder")}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSubmitting}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleWithdraw}
+            disabled={!valid || isSubmitting}
+          >
+            {isSubmitting ? t("common.processing") : t("withdraw.submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
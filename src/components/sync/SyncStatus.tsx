@@ -0,0 +1,90 @@
+/**
+ * SyncStatus Component
+ *
+ * Header indicator for offline mode: shows whether the API server is reachable,
+ * how many changes are waiting to be sent, and any queued changes the server refused.
+ * Only rendered for the REST backend; the browser backends never go offline.
+ */
+
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { OFFLINE_ENABLED, dismissConflict, replayQueue, useSyncState, type SyncConflict } from "@/api/offline";
+import { useFormatter } from "@/hooks/use-formatter";
+import { useTranslation } from "@/hooks/use-translation";
+import { translateError } from "@/i18n";
+import { cn } from "@/lib/utils";
+
+export function SyncStatus() {
+  const { status, queue, conflicts } = useSyncState();
+  const fmt = useFormatter(); // When each refused change was made
+  const { t, language } = useTranslation();
+  if (!OFFLINE_ENABLED) return null;
+
+  // Short label for the trigger button
+  const count = queue.length;
+  const label =
+    status === "syncing" ? t("sync.syncing") :
+    status === "offline" ? (count > 0 ? t("sync.offlineQueued", { count }) : t("sync.offline")) :
+    count > 0 ? t("sync.queued", { count }) :
+    t("sync.synced");
+
+  // What a refused change was; conflicts saved by older versions only have the English description
+  const describe = ({ subject, description }: SyncConflict) => {
+    if (!subject) return description;
+    if (subject.type === "create-goal") return t("sync.newGoal", { name: subject.name });
+    const amount = fmt.money(subject.amount, subject.currency);
+    return subject.goalName ? t("sync.deposit", { amount, name: subject.goalName }) : t("sync.depositUnknownGoal", { amount });
+  };
+  const Icon = status === "offline" ? CloudOff : status === "syncing" ? RefreshCw : Cloud;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={cn("gap-1.5", status === "offline" && "text-warning")} aria-label={t("sync.label", { label })}>
+          <Icon className={cn("h-4 w-4", status === "syncing" && "animate-spin")} aria-hidden />
+          {label}
+          {/* Refused changes stay flagged until dismissed */}
+          {conflicts.length > 0 && (
+            <span className="inline-flex items-center gap-1 text-destructive">
+              <AlertTriangle className="h-4 w-4" aria-hidden />
+              {conflicts.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3 text-sm">
+        <p className="text-muted-foreground">
+          {status === "offline" ? t("sync.offlineHint") : queue.length > 0 ? t("sync.sending") : t("sync.allSaved")}
+        </p>
+
+        {queue.length > 0 && (
+          <Button size="sm" variant="outline" onClick={() => replayQueue()} disabled={status === "syncing"}>
+            {t("sync.now")}
+          </Button>
+        )}
+
+        {/* Queued changes the server refused during replay */}
+        {conflicts.length > 0 && (
+          <div className="space-y-2">
+            <p className="font-medium">{t("sync.notSynced")}</p>
+            <ul className="space-y-2">
+              {conflicts.map((c) => (
+                <li key={c.id} className="rounded-md border border-destructive/40 p-2">
+                  <div className="font-medium">{describe(c)}</div>
+                  <div className="text-destructive">{translateError(language, { message: c.message, ...c.error })}</div>
+                  <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+                    {fmt.dateTime(c.at)}
+                    <Button size="sm" variant="ghost" onClick={() => dismissConflict(c.id)}>
+                      {t("sync.dismiss")}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * ThemeSwitcher Component
+ *
+ * Header menu for choosing a light or dark theme, or following the system setting.
+ * The choice is kept in this browser by next-themes (see ThemeProvider in App.tsx).
+ *
+ * Purpose: Lets users switch to the dark palette defined in index.css
+ */
+
+import { Monitor, Moon, Sun } from "lucide-react";
+import { useTheme } from "next-themes";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useTranslation } from "@/hooks/use-translation";
+
+// Offered themes in menu order; "system" follows the operating system's light/dark setting
+const THEMES = [
+  { value: "light", key: "theme.light", icon: Sun },
+  { value: "dark", key: "theme.dark", icon: Moon },
+  { value: "system", key: "theme.system", icon: Monitor },
+] as const;
+
+export function ThemeSwitcher() {
+  const { theme = "system", setTheme } = useTheme();
+  const { t } = useTranslation();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" aria-label={t("theme.label")}>
+          {/* Both icons are rendered; the .dark class decides which one shows, so there is no flash on load */}
+          <Sun className="h-4 w-4 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
+          <Moon className="absolute h-4 w-4 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={theme} onValueChange={setTheme}>
+          {THEMES.map(({ value, key, icon: Icon }) => (
+            <DropdownMenuRadioItem key={value} value={value}>
+              <Icon className="mr-2 h-4 w-4" />
+              {t(key)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * SaveViewDialog Component
+ *
+ * A modal dialog for naming a saved view: either saving the dashboard's current
+ * search, filters and sort as a new view, or renaming an existing one.
+ *
+ * Purpose: Single form for saved view create/rename
+ */
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTranslation } from "@/hooks/use-translation";
+import type { SavedView } from "@/types/view";
+
+/**
+ * Props interface for SaveViewDialog component
+ */
+interface SaveViewDialogProps {
+  open: boolean; // Controls dialog visibility
+  onOpenChange: (open: boolean) => void; // Handler for dialog state changes
+  initial?: SavedView; // View being renamed (create mode when missing)
+  onSubmit: (values: { name: string; isDefault: boolean }) => Promise<void> | void; // Submission handler
+}
+
+export function SaveViewDialog({ open, onOpenChange, initial, onSubmit }: SaveViewDialogProps) {
+  // Form state
+  const [name, setName] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false); // Tracks submission state
+  const { t } = useTranslation();
+
+  /**
+   * Populate the form each time the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name ?? "");
+    setIsDefault(initial?.isDefault ?? false);
+  }, [open, initial]);
+
+  const valid = name.trim() !== "";
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ name: name.trim(), isDefault });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Saving view failed:", error);
+      // Error handling is typically done by the parent component
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{initial ? t("viewDialog.renameTitle") : t("viewDialog.saveTitle")}</DialogTitle>
+          <DialogDescription>
+            {initial ? t("viewDialog.renameDescription") : t("viewDialog.saveDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="view-name">{t("viewDialog.name")}</Label>
+            <Input id="view-name" placeholder={t("viewDialog.namePlaceholder")} value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+          </div>
+          {/* The default is changed from the view menu once a view exists */}
+          {!initial && (
+            <div className="flex items-center gap-2">
+              <Checkbox id="view-default" checked={isDefault} onCheckedChange={(checked) => setIsDefault(checked === true)} />
+              <Label htmlFor="view-default" className="font-normal">{t("viewDialog.openByDefault")}</Label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="submit" disabled={!valid || isSubmitting}>
+              {isSubmitting ? t("viewDialog.saving") : t("viewDialog.saveTitle")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * SavedViewTabs Component
+ *
+ * Tabs above the goals grid: "All goals" plus every saved view. Picking a tab applies the view's
+ * search, filters and sort; filters that don't match any tab can be saved as a new view.
+ * The active view's menu sets it as the default, renames or deletes it.
+ *
+ * Purpose: Lets each person jump straight to the way they like to look at the goals
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { MoreHorizontal, Star } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { SaveViewDialog } from "./SaveViewDialog";
+import { useCreateView, useDeleteView, useSetDefaultView, useUpdateView, useViews } from "@/api/views";
+import { useTranslation } from "@/hooks/use-translation";
+import { EMPTY_GOAL_QUERY, isEmptyGoalQuery, isSameGoalQuery, type GoalQuery } from "@/lib/goal-query";
+
+/**
+ * Props interface for SavedViewTabs component
+ */
+interface SavedViewTabsProps {
+  query: GoalQuery; // Search, filters and sort currently applied
+  onSelect: (query: GoalQuery) => void; // Applies a view's query
+}
+
+// Tab value for the unfiltered list
+const ALL = "all";
+
+export function SavedViewTabs({ query, onSelect }: SavedViewTabsProps) {
+  const { data: views = [] } = useViews();
+  const createView = useCreateView();
+  const updateView = useUpdateView();
+  const setDefaultView = useSetDefaultView();
+  const deleteView = useDeleteView();
+  const [saveOpen, setSaveOpen] = useState(false); // Controls the save dialog
+  const [renameOpen, setRenameOpen] = useState(false); // Controls the rename dialog
+  const { t, errorMessage } = useTranslation();
+
+  // The tab whose query matches the URL; none when the filters were changed by hand
+  const active = views.find((v) => isSameGoalQuery(v.query, query));
+  const value = active?.id ?? (isEmptyGoalQuery(query) ? ALL : "");
+
+  // Open the default view when the dashboard is visited without filters in the URL
+  // Only once per visit, so choosing "All goals" afterwards sticks
+  const defaultApplied = useRef(false);
+  useEffect(() => {
+    if (defaultApplied.current || views.length === 0) return;
+    defaultApplied.current = true;
+    const fallback = views.find((v) => v.isDefault);
+    if (fallback && isEmptyGoalQuery(query)) onSelect({ ...EMPTY_GOAL_QUERY, ...fallback.query });
+  }, [views, query, onSelect]);
+
+  // Apply the chosen tab
+  const handleSelect = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    onSelect({ ...EMPTY_GOAL_QUERY, ...view?.query }); // Views saved before a filter existed leave it unset
+  };
+
+  // Save the current filters as a new view
+  const handleCreate = async ({ name, isDefault }: { name: string; isDefault: boolean }) => {
+    try {
+      await createView.mutateAsync({ name, query, isDefault });
+      toast.success(t("views.saved"));
+    } catch (e) {
+      toast.error(errorMessage(e, t("views.saveFailed")));
+      throw e;
+    }
+  };
+
+  // Rename the active view
+  const handleRename = async ({ name }: { name: string }) => {
+    if (!active) return;
+    try {
+      await updateView.mutateAsync({ view: active, data: { name } });
+      toast.success(t("views.renamed"));
+    } catch (e) {
+      toast.error(errorMessage(e, t("views.renameFailed")));
+      throw e;
+    }
+  };
+
+  // Make the active view the default, or stop opening it by default
+  const handleToggleDefault = async () => {
+    if (!active) return;
+    try {
+      await setDefaultView.mutateAsync(active.isDefault ? null : active.id);
+      toast.success(active.isDefault ? t("views.defaultCleared") : t("views.defaultSet", { name: active.name }));
+    } catch (e) {
+      toast.error(errorMessage(e, t("views.defaultFailed")));
+    }
+  };
+
+  // Delete the active view and go back to the full list
+  const handleDelete = async () => {
+    if (!active) return;
+    try {
+      await deleteView.mutateAsync(active.id);
+      onSelect(EMPTY_GOAL_QUERY);
+      toast.success(t("views.deleted"));
+    } catch (e) {
+      toast.error(errorMessage(e, t("views.deleteFailed")));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tabs value={value} onValueChange={handleSelect} className="max-w-full overflow-x-auto">
+        <TabsList>
+          <TabsTrigger value={ALL}>{t("views.all")}</TabsTrigger>
+          {views.map((view) => (
+            <TabsTrigger key={view.id} value={view.id} className="gap-1">
+              {view.isDefault && <Star className="h-3 w-3 fill-current" aria-label={t("views.defaultView")} />}
+              {view.name}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {/* Filters that don't match a tab yet can be kept as a view */}
+      {!value && (
+        <Button variant="outline" size="sm" onClick={() => setSaveOpen(true)}>{t("views.save")}</Button>
+      )}
+
+      {/* Options for the active saved view */}
+      {active && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" aria-label={t("views.options", { name: active.name })}>
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onSelect={handleToggleDefault}>
+              {active.isDefault ? t("views.dontOpenByDefault") : t("views.openByDefault")}
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setRenameOpen(true)}>{t("views.rename")}</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={handleDelete} className="text-destructive">{t("views.delete")}</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {/* Save and rename dialogs */}
+      <SaveViewDialog open={saveOpen} onOpenChange={setSaveOpen} onSubmit={handleCreate} />
+      <SaveViewDialog open={renameOpen} onOpenChange={setRenameOpen} initial={active} onSubmit={handleRename} />
+    </div>
+  );
+}
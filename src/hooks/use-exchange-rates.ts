@@ -0,0 +1,85 @@
+// The user's exchange-rate table, kept in this browser's localStorage
+// Every component reading the table re-renders when it changes, including in other tabs.
+// The base currency is a display setting (src/api/settings.ts); the stored rates are re-expressed against it,
+// while the stored table keeps its own base so switching the base currency never loses a saved rate
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useSettings } from "@/api/settings";
+import { DEFAULT_EXCHANGE_RATES, convert, getRate, rebase, type ExchangeRates } from "@/lib/currency";
+import { DEFAULT_SETTINGS } from "@/types/settings";
+
+const STORAGE_KEY = "smart-goal-planner:exchange-rates";
+const listeners = new Set<() => void>();
+
+// Parsed once per change so snapshots compare equal between renders
+let cached: { raw: string | null; table: ExchangeRates } | undefined;
+
+function read(): ExchangeRates {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (cached?.raw === raw) return cached.table;
+  let table = DEFAULT_EXCHANGE_RATES;
+  try {
+    if (raw !== null) table = { ...DEFAULT_EXCHANGE_RATES, ...(JSON.parse(raw) as ExchangeRates) };
+  } catch {
+    // Keep the defaults when the stored value is unreadable
+  }
+  cached = { raw, table };
+  return table;
+}
+
+function write(table: ExchangeRates) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener("storage", listener); // Changes made in another tab
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+export function useExchangeRates() {
+  const { data: settings = DEFAULT_SETTINGS } = useSettings();
+  const stored = useSyncExternalStore(subscribe, read, () => DEFAULT_EXCHANGE_RATES);
+  const table = useMemo(() => rebase(stored, settings.baseCurrency), [stored, settings.baseCurrency]);
+
+  // Whether the stored rates can be re-expressed against the base currency
+  const linked = Object.keys(stored.rates).length === 0 || getRate(stored, table.base) !== undefined;
+
+  // A rate can be entered when it can be saved without dropping others: the stored rates are linked to the
+  // base currency, or the currency already has a stored rate (entering it links the base currency to the table)
+  const canSetRate = useCallback((code: string) => linked || getRate(stored, code) !== undefined, [linked, stored]);
+
+  // Set one currency's rate against the base currency, or forget it with undefined
+  // The rate is converted into the stored table's base and merged with the saved rates
+  const setRate = useCallback((code: string, rate: number | undefined) => {
+    const valid = rate !== undefined && rate > 0;
+    if (Object.keys(stored.rates).length === 0) {
+      write({ base: table.base, rates: valid ? { [code]: rate } : {} }); // Nothing saved yet, so start from the base currency
+      return;
+    }
+
+    const next = { ...stored.rates };
+    const baseRate = getRate(stored, table.base); // One unit of the base currency in the stored table's currency
+    if (baseRate !== undefined) {
+      // The stored table's own currency is expressed through the base currency's rate
+      const key = code === stored.base ? table.base : code;
+      if (valid) next[key] = code === stored.base ? 1 / rate : rate * baseRate;
+      else delete next[key];
+    } else {
+      // The base currency has no stored rate yet; a currency with one gives it (see canSetRate)
+      const known = getRate(stored, code);
+      if (known === undefined || !valid) return;
+      next[table.base] = known / rate;
+    }
+    write({ base: stored.base, rates: next });
+  }, [stored, table.base]);
+
+  // Amount in the base currency; undefined while the currency has no rate
+  const toBase = useCallback((amount: number, currency: string) => convert(amount, currency, table.base, table), [table]);
+
+  return { table, baseCurrency: table.base, storedBase: stored.base, linked, canSetRate, setRate, toBase };
+}
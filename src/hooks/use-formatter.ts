@@ -0,0 +1,12 @@
+// Formatter for money, dates and percentages that follows the user's display settings
+// Re-created only when the settings change, so it is safe to use in memo and effect dependencies
+
+import { useMemo } from "react";
+import { useSettings } from "@/api/settings";
+import { createFormatter } from "@/lib/format";
+import { DEFAULT_SETTINGS } from "@/types/settings";
+
+export function useFormatter() {
+  const { data: settings = DEFAULT_SETTINGS } = useSettings();
+  return useMemo(() => createFormatter(settings), [settings]);
+}
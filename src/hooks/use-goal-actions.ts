@@ -0,0 +1,143 @@
+// Handlers for everything a user can do to a goal, shared by the dashboard and the goal detail page
+// Each handler runs the mutation and reports the outcome with a toast; create and update rethrow
+// so forms keep their values and can show field errors
+
+import { toast } from "sonner"; // Toast notification system for user feedback
+import { useCreateGoal, useGoals, useUpdateGoal, useDeleteGoal } from "@/api/goals"; // API hooks for goal operations
+import { useDeposit, useTransfer, useWithdraw } from "@/api/transactions"; // Ledger hooks for deposits, withdrawals and transfers
+import { ConflictError } from "@/api/errors"; // Lets stale edits reload the goal
+import { isQueuedId } from "@/api/offline"; // Recognizes changes saved offline
+import { useTranslation } from "@/hooks/use-translation"; // Toasts in the chosen language
+import type { GoalFormValues } from "@/lib/goal-schema"; // Values entered in the goal form
+import type { Goal } from "@/types/goal"; // TypeScript type definitions for Goal objects
+import type { WithdrawalReason } from "@/types/transaction"; // Reasons accepted for withdrawals
+
+export function useGoalActions() {
+  // Used to load the latest goals after a conflict
+  const { refetch } = useGoals();
+  const { t, errorMessage } = useTranslation();
+
+  // Mutation hooks for CRUD operations on goals
+  const createGoal = useCreateGoal(); // Hook for creating new goals
+  const updateGoal = useUpdateGoal(); // Hook for updating existing goals
+  const deleteGoal = useDeleteGoal(); // Hook for deleting goals
+  const deposit = useDeposit(); // Hook for making deposits to goals
+  const withdraw = useWithdraw(); // Hook for taking money out of goals
+  const transfer = useTransfer(); // Hook for moving money between goals
+
+  // Handler for creating a new goal
+  // Takes form values and creates a new goal via API
+  const handleCreate = async (values: GoalFormValues) => {
+    try {
+      // Create the goal with the provided values
+      const goal = await createGoal.mutateAsync({
+        name: values.name,
+        targetAmount: values.targetAmount,
+        currency: values.currency,
+        category: values.category,
+        deadline: values.deadline,
+      });
+      // Show success notification (goals created offline are only saved on the server later)
+      toast.success(t(isQueuedId(goal.id) ? "goalToast.createdOffline" : "goalToast.created"));
+      return goal;
+    } catch (e) {
+      // Show a readable error; unexpected failures fall back to a generic message
+      toast.error(errorMessage(e, t("goalToast.createFailed")));
+      // Let the form keep its values and show field errors
+      throw e;
+    }
+  };
+
+  // Handler for updating an existing goal
+  // Takes goal ID and partial data to update
+  const handleUpdate = async (id: string, data: Partial<Goal>) => {
+    try {
+      // Update the goal via API
+      await updateGoal.mutateAsync({ id, data });
+      // Show success notification
+      toast.success(t("goalToast.updated"));
+    } catch (e) {
+      // Someone else saved first: load their version so the user can review it and save again
+      if (e instanceof ConflictError) {
+        await refetch();
+        toast.error(errorMessage(e, e.message), { description: t("goalToast.updateConflict") });
+        throw e;
+      }
+      // Show a readable error; unexpected failures fall back to a generic message
+      toast.error(errorMessage(e, t("goalToast.updateFailed")));
+      // Let the form keep its values and show field errors
+      throw e;
+    }
+  };
+
+  // Handler for deleting a goal
+  // Takes goal ID and removes it from the system
+  const handleDelete = async (id: string) => {
+    try {
+      // Delete the goal via API
+      await deleteGoal.mutateAsync(id);
+      // Show success notification
+      toast.success(t("goalToast.deleted"));
+    } catch (e) {
+      // Show a readable error; unexpected failures fall back to a generic message
+      toast.error(errorMessage(e, t("goalToast.deleteFailed")));
+    }
+  };
+
+  // Handler for making a deposit to a specific goal
+  // Takes goal ID, deposit amount, an optional note for the ledger entry and the goal version the user saw
+  const handleDeposit = async (id: string, amount: number, note: string, version?: number) => {
+    try {
+      // Process the deposit via API
+      const tx = await deposit.mutateAsync({ id, amount, note, version });
+      // Show success notification (deposits made offline are only saved on the server later)
+      toast.success(t(isQueuedId(tx.id) ? "goalToast.depositedOffline" : "goalToast.deposited"));
+    } catch (e) {
+      // The goal changed on another device; nothing was saved, so offer to make the deposit again on the latest data
+      if (e instanceof ConflictError) {
+        const { data: latest } = await refetch();
+        const goal = latest?.find((g) => g.id === id);
+        if (goal) {
+          toast.error(errorMessage(e, e.message), {
+            description: t("goalToast.depositConflict"),
+            action: { label: t("goalToast.reapplyDeposit"), onClick: () => handleDeposit(id, amount, note, goal.version) },
+          });
+          return;
+        }
+      }
+      // Show a readable error; unexpected failures fall back to a generic message
+      toast.error(errorMessage(e, t("goalToast.depositFailed")));
+    }
+  };
+
+  // Handler for withdrawing from a specific goal
+  // The reason is stored on the ledger entry so the history explains the drop
+  const handleWithdraw = async (id: string, amount: number, reason: WithdrawalReason, note: string) => {
+    try {
+      // Process the withdrawal via API
+      await withdraw.mutateAsync({ id, amount, reason, note });
+      // Show success notification
+      toast.success(t("goalToast.withdrawn"));
+    } catch (e) {
+      // Show a readable error; unexpected failures fall back to a generic message
+      toast.error(errorMessage(e, t("goalToast.withdrawFailed")));
+    }
+  };
+
+  // Handler for moving money from one goal into another
+  // Both goals are updated together or not at all
+  // `receivedAmount` is what the destination gets in its own currency when the currencies differ
+  const handleTransfer = async (fromGoalId: string, toGoalId: string, amount: number, note: string, receivedAmount?: number) => {
+    try {
+      // Process the transfer via API
+      await transfer.mutateAsync({ fromGoalId, toGoalId, amount, receivedAmount, note });
+      // Show success notification
+      toast.success(t("goalToast.transferred"));
+    } catch (e) {
+      // Show a readable error; unexpected failures fall back to a generic message
+      toast.error(errorMessage(e, t("goalToast.transferFailed")));
+    }
+  };
+
+  return { handleCreate, handleUpdate, handleDelete, handleDeposit, handleWithdraw, handleTransfer };
+}
@@ -0,0 +1,24 @@
+// Keeps the dashboard's search, filters and sort in the URL query string,
+// so a filtered view can be bookmarked, shared and restored with the back button
+
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { parseGoalQuery, toGoalSearchParams, type GoalQuery } from "@/lib/goal-query";
+
+export function useGoalQuery() {
+  const [params, setParams] = useSearchParams();
+  const query = useMemo(() => parseGoalQuery(params), [params]);
+
+  // Merge a change into the current query
+  // Filter, sort and view changes each add a history entry; further keystrokes in an already started search
+  // replace the current one so typing doesn't turn every letter into a back-button step
+  const setQuery = useCallback(
+    (patch: Partial<GoalQuery>) => {
+      const typing = Object.keys(patch).every((key) => key === "search") && query.search !== "";
+      setParams((prev) => toGoalSearchParams({ ...parseGoalQuery(prev), ...patch }), { replace: typing });
+    },
+    [setParams, query.search],
+  );
+
+  return [query, setQuery] as const;
+}
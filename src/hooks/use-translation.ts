@@ -0,0 +1,32 @@
+// Interface text in the language chosen in the display settings (English until they load)
+// t() returns plain strings; rich() fills placeholders with elements, e.g. a bold amount inside a sentence
+// errorMessage() shows API errors in the chosen language; anything else gets the caller's fallback
+
+import { Fragment, createElement, useCallback, type ReactNode } from "react";
+import { useSettings } from "@/api/settings";
+import { ApiError } from "@/api/errors";
+import { getMessage, splitPlaceholders, translate, translateError, type MessageKey, type MessageParams } from "@/i18n";
+import { DEFAULT_SETTINGS } from "@/types/settings";
+
+export function useTranslation() {
+  const { data: settings = DEFAULT_SETTINGS } = useSettings();
+  const { language } = settings;
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(language, key, params), [language]);
+
+  const rich = useCallback(
+    (key: MessageKey, params: Record<string, ReactNode>) => {
+      const count = typeof params.count === "number" ? params.count : undefined;
+      const parts = splitPlaceholders(getMessage(language, key, count)).map((part, i) => (i % 2 === 0 ? part : params[part] ?? `{${part}}`));
+      return createElement(Fragment, null, ...parts);
+    },
+    [language],
+  );
+
+  const errorMessage = useCallback(
+    (error: unknown, fallback: string) => (error instanceof ApiError ? translateError(language, error) : fallback),
+    [language],
+  );
+
+  return { t, rich, errorMessage, language };
+}
@@ -0,0 +1,447 @@
+// English messages: the reference catalog, and the fallback for anything another catalog is missing
+// `{name}` placeholders are filled in by t(); messages with plural forms are picked by `count`
+
+import type { Catalog } from "./types";
+
+export const en = {
+  // Shared
+  "app.name": "Smart Goal Planner",
+  "common.cancel": "Cancel",
+  "common.perMonth": "{amount}/month",
+  "common.perWeek": "{amount}/week",
+  "common.save": "Save",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.backToGoals": "← Back to goals",
+  "common.saving": "Saving...",
+  "common.processing": "Processing...",
+  "common.amount": "Amount ({currency})",
+  "common.amountPlaceholder": "Enter amount",
+  "common.noteOptional": "Note (optional)",
+
+  // Goal status, forecast and plan frequency labels
+  "status.Active": "Active",
+  "status.Due soon": "Due soon",
+  "status.Overdue": "Overdue",
+  "status.Completed": "Completed",
+  "forecast.complete": "Target reached",
+  "forecast.ahead": "Ahead",
+  "forecast.on-track": "On track",
+  "forecast.behind": { one: "Behind by {count} day", other: "Behind by {count} days" },
+  "forecast.no-progress": "No progress yet",
+  "frequency.weekly": "Weekly",
+  "frequency.biweekly": "Every two weeks",
+  "frequency.monthly": "Monthly",
+
+  // Theme switcher
+  "theme.label": "Theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+
+  // Dashboard (Index.tsx)
+  "index.metaTitle": "Smart Goal Planner — Track Your Savings Goals",
+  "index.metaDescription": "Create, manage, and track multiple savings goals with deposits, progress, and deadlines.",
+  "index.ogDescription": "Manage savings goals, make deposits, and visualize progress.",
+  "index.analytics": "Analytics",
+  "index.categories": "Categories",
+  "index.settings": "Settings",
+  "index.addGoal": "Add Goal",
+  "index.subtitle": "Manage multiple savings goals, allocate deposits, and track your progress with clear deadlines.",
+  "index.loading": "Loading goals...",
+  "index.loadFailed": "Failed to load goals.",
+  "index.overviewHeading": "Overview",
+  "index.goalsHeading": "Goals",
+  "index.noMatches": "No goals match these filters.",
+  "index.clearFilters": "Clear filters",
+  "index.empty": "No goals yet. Click \"Add Goal\" to get started.",
+
+  // Goal card
+  "goalCard.fixIssues": "Edit the goal or its history to fix this.",
+  "goalCard.progress": "Progress",
+  "goalCard.saved": "Saved",
+  "goalCard.target": "Target",
+  "goalCard.remaining": "Remaining",
+  "goalCard.deadline": "Deadline",
+  "goalCard.needed": "Needed",
+  "goalCard.forecast": "Forecast",
+  "goalCard.nextContribution": "Next contribution: {amount} on {date} ({frequency})",
+  "goalCard.planEnded": "Contribution plan ended",
+
+  // Goal detail page (GoalDetail.tsx); shares its labels with the goal card
+  "goalDetail.loading": "Loading goal...",
+  "goalDetail.loadFailed": "Failed to load goal.",
+  "goalDetail.notFoundMetaTitle": "Goal not found — Smart Goal Planner",
+  "goalDetail.notFoundTitle": "Goal not found",
+  "goalDetail.notFoundMessage": "This goal doesn't exist. It may have been deleted, possibly on another device, or the link is incomplete.",
+  "goalDetail.backToGoals": "Back to goals",
+  "goalDetail.metaTitle": "{name} — Smart Goal Planner",
+  "goalDetail.metaDescription": "Progress, forecast and history for the {name} savings goal.",
+  "goalDetail.created": "Created {date}",
+  "goalDetail.savedOfTarget": "{saved} of {target}",
+  "goalDetail.timeLeft": "Time left",
+  "goalDetail.daysLeft": { one: "{count} day", other: "{count} days" },
+  "goalDetail.daysOverdue": { one: "{count} day overdue", other: "{count} days overdue" },
+  "goalDetail.projected": "Projected completion",
+  "goalDetail.pace": "Current pace",
+
+  // Goal actions (GoalActions.tsx)
+  "goalActions.deposit": "Deposit",
+  "goalActions.withdraw": "Withdraw",
+  "goalActions.transfer": "Transfer",
+  "goalActions.edit": "Edit",
+  "goalActions.history": "History",
+  "goalActions.schedule": "Schedule",
+  "goalActions.addSchedule": "Add schedule",
+  "goalActions.delete": "Delete",
+  "goalActions.deleteTitle": "Delete this goal?",
+  "goalActions.deleteDescription": "This action cannot be undone. This will permanently delete the goal.",
+
+  // Notifications for goal changes (use-goal-actions.ts)
+  "goalToast.created": "Goal created",
+  "goalToast.createdOffline": "Goal saved offline; it will sync when the server is reachable",
+  "goalToast.createFailed": "Failed to create goal",
+  "goalToast.updated": "Goal updated",
+  "goalToast.updateConflict": "The latest version has been loaded. Review it and save again.",
+  "goalToast.updateFailed": "Failed to update goal",
+  "goalToast.deleted": "Goal deleted",
+  "goalToast.deleteFailed": "Failed to delete goal",
+  "goalToast.deposited": "Deposit successful",
+  "goalToast.depositedOffline": "Deposit saved offline; it will sync when the server is reachable",
+  "goalToast.depositConflict": "Your deposit was not saved. The latest balance has been loaded.",
+  "goalToast.reapplyDeposit": "Reapply deposit",
+  "goalToast.depositFailed": "Deposit failed",
+  "goalToast.withdrawn": "Withdrawal recorded",
+  "goalToast.withdrawFailed": "Withdrawal failed",
+  "goalToast.transferred": "Transfer completed",
+  "goalToast.transferFailed": "Transfer failed",
+
+  // Goal form
+  "goalForm.createTitle": "Create Goal",
+  "goalForm.editTitle": "Edit Goal",
+  "goalForm.createDescription": "Set up a new savings goal with a target amount and deadline.",
+  "goalForm.editDescription": "Update your goal details and save changes.",
+  "goalForm.name": "Goal Name",
+  "goalForm.namePlaceholder": "e.g., Emergency Fund",
+  "goalForm.nameHint": "A descriptive name for your savings goal",
+  "goalForm.nameRequired": "Goal name is required",
+  "goalForm.targetAmount": "Target Amount",
+  "goalForm.targetAmountHint": "The total amount you want to save",
+  "goalForm.targetAmountMin": "Target amount must be at least 1",
+  "goalForm.currency": "Currency",
+  "goalForm.currencyHintCreate": "Target and deposits are in this currency",
+  "goalForm.currencyHintEdit": "Deposits are recorded in this currency; it can't be changed",
+  "goalForm.category": "Category",
+  "goalForm.categoryPlaceholder": "Select a category",
+  "goalForm.categoryHint": "Choose a category for better organization.",
+  "goalForm.manageCategories": "Manage categories",
+  "goalForm.categoryRequired": "Category is required",
+  "goalForm.deadline": "Deadline",
+  "goalForm.deadlinePlaceholder": "Pick a date",
+  "goalForm.deadlineHint": "Your target date to achieve this goal",
+  "goalForm.deadlineRequired": "Deadline is required",
+  "goalForm.saving": "Saving...",
+  "goalForm.save": "Save Goal",
+
+  // Deposit dialog
+  "deposit.title": "Make a Deposit",
+  "deposit.description": "Add money to this goal to track your progress",
+  "deposit.amount": "Amount ({currency})",
+  "deposit.amountPlaceholder": "Enter amount",
+  "deposit.amountHint": "Enter the amount you want to add to this goal",
+  "deposit.note": "Note (optional)",
+  "deposit.notePlaceholder": "e.g., March salary",
+  "deposit.processing": "Processing...",
+  "deposit.submit": "Deposit",
+
+  // Withdraw and transfer dialogs
+  "withdraw.title": "Withdraw Money",
+  "withdraw.description": "Take money out of this goal. Available: {amount}",
+  "withdraw.exceeds": "You can't withdraw more than {amount}",
+  "withdraw.reason": "Reason",
+  "withdraw.reasonPlaceholder": "Select a reason",
+  "withdraw.notePlaceholder": "e.g., Car repair",
+  "withdraw.submit": "Withdraw",
+  "reason.emergency": "Emergency",
+  "reason.purchase": "Purchase",
+  "reason.reallocation": "Reallocation",
+  "reason.other": "Other",
+  "transfer.title": "Transfer to Another Goal",
+  "transfer.description": "Move savings out of {name}. Available: {amount}",
+  "transfer.destination": "Destination",
+  "transfer.destinationPlaceholder": "Select a goal",
+  "transfer.noDestinations": "Create another goal to transfer into.",
+  "transfer.exceeds": "You can't transfer more than {amount}",
+  "transfer.receives": "{name} receives {amount}",
+  "transfer.missingRate": "Add exchange rates for {from} and {to} to transfer between them",
+  "transfer.notePlaceholder": "e.g., Leftover after service",
+  "transfer.submit": "Transfer",
+
+  // Ledger (TransactionList and TransactionHistoryDialog)
+  "history.title": "History",
+  "history.description": "Deposits, withdrawals and transfers recorded for {name}",
+  "ledger.loading": "Loading history...",
+  "ledger.loadFailed": "Failed to load history.",
+  "ledger.empty": "No transactions recorded yet.",
+  "ledger.amount": "Amount",
+  "ledger.note": "Note",
+  "ledger.pending": "Pending",
+  "ledger.to": "To {name}",
+  "ledger.from": "From {name}",
+  "ledger.deletedGoal": "deleted goal",
+  "ledger.updated": "Transaction updated",
+  "ledger.updateFailed": "Failed to update transaction",
+  "ledger.deleted": "Transaction deleted",
+  "ledger.deleteFailed": "Failed to delete transaction",
+
+  // Overview statistics
+  "overview.totalGoals": "Total Goals",
+  "overview.totalGoalsHint": "Active savings goals",
+  "overview.totalSaved": "Total Saved",
+  "overview.totalSavedHint": "across all goals",
+  "overview.totalTarget": "Total Target",
+  "overview.totalTargetHint": "combined goal targets",
+  "overview.overallProgress": "Overall Progress",
+  "overview.completed": { one: "{completed} of {count} goal completed", other: "{completed} of {count} goals completed" },
+  "overview.totalsIn": "Totals in {currency}.",
+  "overview.missingRates": "Goals in {currencies} are not included until you add an exchange rate.",
+  "overview.exchangeRates": "Exchange rates",
+  "overview.requiredPerMonth": "You need {amount} across all goals to meet every deadline.",
+
+  // Goal data problems (getGoalIssueCodes in src/types/goal.ts)
+  "goalIssue.target-not-positive": "Target amount must be greater than zero",
+  "goalIssue.negative-saved": "Saved amount is negative",
+  "goalIssue.implausible-overshoot": "Saved amount is more than {times}× the target",
+  "goalIssue.deadline-before-created": "Deadline is before the creation date",
+
+  // Goal toolbar: search, filters and sort
+  "toolbar.search": "Search goals",
+  "toolbar.searchLabel": "Search goals by name",
+  "toolbar.categoryLabel": "Filter by category",
+  "toolbar.allCategories": "All categories",
+  "toolbar.statusLabel": "Filter by status",
+  "toolbar.anyStatus": "Any status",
+  "toolbar.dueFrom": "Due on or after",
+  "toolbar.dueTo": "Due on or before",
+  "toolbar.sortLabel": "Sort goals",
+  "toolbar.dateAdded": "Date added",
+  "toolbar.sortAscending": "Sort ascending",
+  "toolbar.sortDescending": "Sort descending",
+  "toolbar.ascending": "Ascending",
+  "toolbar.descending": "Descending",
+  "toolbar.clear": "Clear",
+  "sort.deadline": "Deadline",
+  "sort.progress": "Progress",
+  "sort.remaining": "Remaining",
+  "sort.target": "Target",
+
+  // Saved view tabs and the save/rename dialog
+  "views.all": "All goals",
+  "views.defaultView": "Default view",
+  "views.save": "Save view",
+  "views.options": "Options for {name}",
+  "views.openByDefault": "Open by default",
+  "views.dontOpenByDefault": "Don't open by default",
+  "views.rename": "Rename",
+  "views.delete": "Delete",
+  "views.saved": "View saved",
+  "views.saveFailed": "Failed to save view",
+  "views.renamed": "View renamed",
+  "views.renameFailed": "Failed to rename view",
+  "views.defaultCleared": "Default view cleared",
+  "views.defaultSet": "\"{name}\" opens by default",
+  "views.defaultFailed": "Failed to change the default view",
+  "views.deleted": "View deleted",
+  "views.deleteFailed": "Failed to delete view",
+  "viewDialog.saveTitle": "Save View",
+  "viewDialog.renameTitle": "Rename View",
+  "viewDialog.saveDescription": "Save the current search, filters and sort as a tab above the goals.",
+  "viewDialog.renameDescription": "Views are shared with everyone using this planner.",
+  "viewDialog.name": "Name",
+  "viewDialog.namePlaceholder": "e.g., Travel only",
+  "viewDialog.openByDefault": "Open this view by default",
+  "viewDialog.saving": "Saving...",
+
+  // Pending contributions
+  "pending.title": "Pending contributions ({count})",
+  "pending.dismiss": "Dismiss selected",
+  "pending.confirm": "Confirm selected",
+  "pending.unknownGoal": "Unknown goal",
+  "pending.confirmed": { one: "Contribution confirmed", other: "{count} contributions confirmed" },
+  "pending.dismissed": { one: "Contribution dismissed", other: "{count} contributions dismissed" },
+  "pending.confirmFailed": "Failed to confirm contributions",
+  "pending.dismissFailed": "Failed to dismiss contributions",
+  "pending.planNote": "Scheduled contribution",
+
+  // Settings page
+  "settings.metaTitle": "Settings — Smart Goal Planner",
+  "settings.metaDescription": "Choose the language, region, base currency, date format and first day of the week used across the planner.",
+  "settings.title": "Settings",
+  "settings.subtitle": "The interface language and how amounts and dates are shown. Settings are saved with your goals, so every device using the same data sees the same format.",
+  "settings.loading": "Loading settings...",
+  "settings.loadFailed": "Failed to load settings; the defaults are used for now.",
+  "settings.saveFailed": "Failed to save settings",
+  "settings.displayTitle": "Display",
+  "settings.displayDescription": "Changes apply as soon as they are picked",
+  "settings.language": "Language",
+  "settings.locale": "Number and date format region",
+  "settings.browserLocale": "Browser default",
+  "settings.baseCurrencyHint": "Totals are converted with the exchange rates set on the dashboard. Each goal keeps its own currency.",
+  "settings.dateFormat": "Date format",
+  "settings.followsRegion": "(follows the region)",
+  "settings.weekStart": "First day of the week",
+  "settings.previewTitle": "Preview",
+  "settings.previewDescription": "Amounts are always shown in their own currency",
+  "settings.previewDate": "Date",
+  "settings.previewCompleted": "Completed",
+  "weekday.0": "Sunday",
+  "weekday.1": "Monday",
+  "weekday.6": "Saturday",
+
+  // Analytics page and its charts (CategoryCharts, VelocityChart)
+  "analytics.metaTitle": "Analytics — Smart Goal Planner",
+  "analytics.metaDescription": "See how savings are spread across categories, which goals are overdue and how much is saved each month.",
+  "analytics.title": "Analytics",
+  "analytics.subtitle": "Where your savings are going, by category and by month. Amounts are in {currency}.",
+  "analytics.missingRates": "Goals in {currencies} are left out until they have an exchange rate (set on the dashboard).",
+  "analytics.empty": "No goals yet. Add goals on the dashboard to see how they break down.",
+  "analytics.byCategoryTitle": "Saved by category",
+  "analytics.byCategoryDescription": "Share of everything saved so far",
+  "analytics.nothingSaved": "Nothing saved yet.",
+  "analytics.vsTargetTitle": "Saved vs. target",
+  "analytics.vsTargetDescription": "What each category has saved and what its goals still need",
+  "analytics.categoriesTitle": "Categories",
+  "analytics.noneOverdue": "No goals are overdue.",
+  "analytics.overdue": {
+    one: "{count} goal is past the deadline without reaching the target.",
+    other: "{count} goals are past the deadline without reaching the target.",
+  },
+  "analytics.colCategory": "Category",
+  "analytics.colGoals": "Goals",
+  "analytics.colSaved": "Saved",
+  "analytics.colTarget": "Target",
+  "analytics.colCompleted": "Completed",
+  "analytics.colOverdue": "Overdue",
+  "analytics.completionRate": "{name} completion rate",
+  "analytics.velocityTitle": "Savings velocity",
+  "analytics.velocityDescription": "Deposits and withdrawals per month; you saved {amount} a month on average over the last {count} months. Transfers between goals are left out.",
+  "analytics.deposited": "Deposited",
+  "analytics.withdrawn": "Withdrawn",
+  "analytics.saved": "Saved",
+  "analytics.savedTotal": "saved",
+  "analytics.stillNeeded": "Still needed",
+
+  // Categories page and its dialogs (CategoryDialog, MoveCategoryDialog)
+  "categories.metaTitle": "Categories — Smart Goal Planner",
+  "categories.metaDescription": "Create, rename, merge and delete the categories used to organize savings goals.",
+  "categories.title": "Categories",
+  "categories.add": "Add Category",
+  "categories.subtitle": "Renaming or merging a category updates every goal that uses it.",
+  "categories.loading": "Loading categories...",
+  "categories.loadFailed": "Failed to load categories.",
+  "categories.goalCount": { one: "{count} goal", other: "{count} goals" },
+  "categories.merge": "Merge",
+  "categories.empty": "No categories yet. Click \"Add Category\" to create one.",
+  "categories.created": "Category created",
+  "categories.createFailed": "Failed to create category",
+  "categories.updated": "Category updated",
+  "categories.updateFailed": "Failed to update category",
+  "categories.merged": "Merged into {name}",
+  "categories.deleted": "Category deleted",
+  "categoryDialog.editTitle": "Edit Category",
+  "categoryDialog.newTitle": "New Category",
+  "categoryDialog.editDescription": "Renaming a category also updates every goal that uses it.",
+  "categoryDialog.newDescription": "Add a category to organize your goals.",
+  "categoryDialog.name": "Name",
+  "categoryDialog.namePlaceholder": "e.g., Travel",
+  "categoryDialog.color": "Color",
+  "categoryDialog.icon": "Icon",
+  "categoryDialog.submit": "Save Category",
+  "moveCategory.mergeTitle": "Merge \"{name}\"",
+  "moveCategory.deleteTitle": "Delete \"{name}\"?",
+  "moveCategory.inUse": {
+    one: "{count} goal uses this category. Choose where to move it; \"{name}\" will be removed.",
+    other: "{count} goals use this category. Choose where to move them; \"{name}\" will be removed.",
+  },
+  "moveCategory.unused": "No goals use this category. This action cannot be undone.",
+  "moveCategory.mergeInto": "Merge into",
+  "moveCategory.moveTo": "Move goals to",
+  "moveCategory.targetPlaceholder": "Select a category",
+  "moveCategory.working": "Working...",
+
+  // Contribution plan and notes (ContributionPlanDialog, GoalNotes)
+  "plan.title": "Recurring Contribution",
+  "plan.description": "Schedule a regular deposit. Due contributions appear as pending deposits for you to confirm.",
+  "plan.frequency": "Frequency",
+  "plan.startDate": "Start date",
+  "plan.endDate": "End date (optional)",
+  "plan.endBeforeStart": "End date must be after the start date",
+  "plan.remove": "Remove plan",
+  "plan.save": "Save plan",
+  "notes.label": "Notes",
+  "notes.placeholder": "Why this goal matters, where the money is kept, anything worth remembering…",
+  "notes.discard": "Discard",
+  "notes.save": "Save notes",
+
+  // Exchange rates (ExchangeRatesDialog)
+  "rates.title": "Exchange Rates",
+  "rates.description": "Totals are shown in the base currency. Goals in a currency without a rate are left out of them.",
+  "rates.baseCurrency": "Base currency",
+  "rates.baseFailed": "Failed to change the base currency",
+  "rates.unlinked": "Your saved rates are against {stored}. Enter the {stored} rate first so they can be shown in {base}.",
+  "rates.rateLabel": "1 {code} =",
+  "rates.noRate": "No rate",
+  "rates.add": "Add a currency",
+
+  // Progress over time (OverallProgressChart and BurnUpChart)
+  "progressChart.title": "Progress over time",
+  "progressChart.description": "All goals combined, against the pace that meets every deadline",
+  "burnUp.saved": "Saved",
+  "burnUp.ideal": "Ideal pace",
+  "burnUp.target": "Target",
+
+  // Offline sync indicator (SyncStatus)
+  "sync.syncing": "Syncing…",
+  "sync.offline": "Offline",
+  "sync.offlineQueued": "Offline · {count} queued",
+  "sync.queued": "{count} queued",
+  "sync.synced": "Synced",
+  "sync.label": "Sync status: {label}",
+  "sync.offlineHint": "The server can't be reached. You can keep adding goals and deposits; they are sent in order once it is back.",
+  "sync.sending": "Sending changes made while offline…",
+  "sync.allSaved": "All changes are saved on the server.",
+  "sync.now": "Sync now",
+  "sync.notSynced": "Not synced",
+  "sync.dismiss": "Dismiss",
+  "sync.newGoal": "New goal \"{name}\"",
+  "sync.deposit": "Deposit of {amount} to \"{name}\"",
+  "sync.depositUnknownGoal": "Deposit of {amount} to a goal",
+
+  // API errors, by the code the API layer attaches (src/api/errors.ts)
+  "error.network": "Can't reach the server. Check your connection and try again.",
+  "error.server": "Something went wrong on the server. Please try again.",
+  "error.rejected": "The server rejected this change",
+  "error.conflict": "This item was changed somewhere else. Reload and try again.",
+  "error.invalid": "Some fields are invalid",
+  "error.not-found.goal": "Goal no longer exists",
+  "error.not-found.transaction": "Transaction no longer exists",
+  "error.not-found.category": "Category no longer exists",
+  "error.not-found.saved-view": "Saved view no longer exists",
+  "error.not-found.transfer": "Transfer no longer exists",
+  "error.not-found.item": "Item no longer exists",
+  "error.goal-changed": "This goal was changed on another device",
+  "error.insufficient-funds": "Not enough saved in this goal to cover this change",
+  "error.amount-not-positive": "The amount must be positive",
+  "error.same-goal-transfer": "Choose a different goal to transfer to",
+  "error.already-settled": "This contribution was already confirmed or dismissed on another device",
+  "error.goal-has-transfers": "This goal has transfers to or from other goals; delete those transfers first so the other goals stay balanced",
+  "error.transfer-leg": "Transfers can't be changed one leg at a time; delete the transfer instead",
+  "error.category-exists": "A category named \"{name}\" already exists",
+  "error.category-in-use": "This category is still used by goals; choose a category to move them to",
+  "error.same-category-merge": "Choose a different category to merge into",
+  "error.view-exists": "A view named \"{name}\" already exists",
+
+  // 404 page
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+} satisfies Catalog;
@@ -0,0 +1,62 @@
+// Translation of interface text
+// Components call t() from useTranslation (src/hooks/use-translation.ts); the language is a display setting.
+// A message missing from a catalog falls back to English and is reported once in development
+
+import type { Language } from "@/types/settings";
+import { en } from "./en";
+import { sw } from "./sw";
+import type { ErrorCode } from "@/api/errors";
+import type { Message, MessageParams } from "./types";
+
+export type MessageKey = keyof typeof en;
+export type { MessageParams } from "./types";
+
+const catalogs: Record<Language, Partial<Record<MessageKey, Message>>> = { en, sw };
+
+// Keys already reported, so a missing message is logged once rather than on every render
+const reported = new Set<string>();
+
+function reportMissing(language: Language, key: string) {
+  if (!import.meta.env.DEV || reported.has(`${language}:${key}`)) return;
+  reported.add(`${language}:${key}`);
+  console.warn(`[i18n] "${key}" is missing from the ${language} catalog; showing the English text`);
+}
+
+// Plural rules are looked up once per language
+const pluralRules = new Map<Language, Intl.PluralRules>();
+function selectPlural(language: Language, count: number) {
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(language));
+  return pluralRules.get(language)!.select(count);
+}
+
+// Split a message into text and placeholder names, e.g. "Totals in {currency}." → ["Totals in ", "currency", "."]
+// Odd indexes are placeholder names
+export const splitPlaceholders = (text: string) => text.split(/\{(\w+)\}/);
+
+// Message text for `key` with its plural form picked, before placeholders are filled in
+export function getMessage(language: Language, key: MessageKey, count?: number) {
+  let message = catalogs[language][key];
+  if (message === undefined) {
+    reportMissing(language, key);
+    message = en[key];
+    language = "en"; // Plural forms of the English text follow English rules
+  }
+  if (typeof message === "string") return message;
+  return message[selectPlural(language, count ?? 0)] ?? message.other;
+}
+
+// Translate `key` and fill in its `{name}` placeholders; unknown placeholders are left as they are
+export function translate(language: Language, key: MessageKey, params?: MessageParams) {
+  const text = getMessage(language, key, typeof params?.count === "number" ? params.count : undefined);
+  if (!params) return text;
+  return splitPlaceholders(text)
+    .map((part, i) => (i % 2 === 0 ? part : part in params ? String(params[part]) : `{${part}}`))
+    .join("");
+}
+
+// Message for an API error: the catalog entry for its code (`error.<code>`), or the English message
+// when it has no code or the code is unknown to this version of the app (e.g. sent by a newer server)
+export function translateError(language: Language, error: { message: string } & Partial<ErrorCode>) {
+  const key = `error.${error.code}`;
+  return error.code && key in en ? translate(language, key as MessageKey, error.params) : error.message;
+}
@@ -0,0 +1,447 @@
+// Swahili messages; anything missing here falls back to English (src/i18n/en.ts)
+
+import type { Message } from "./types";
+import type { MessageKey } from "./index";
+
+export const sw: Partial<Record<MessageKey, Message>> = {
+  // Shared
+  "app.name": "Smart Goal Planner",
+  "common.cancel": "Ghairi",
+  "common.perMonth": "{amount}/mwezi",
+  "common.perWeek": "{amount}/wiki",
+  "common.save": "Hifadhi",
+  "common.edit": "Hariri",
+  "common.delete": "Futa",
+  "common.backToGoals": "← Rudi kwenye malengo",
+  "common.saving": "Inahifadhi...",
+  "common.processing": "Inashughulikiwa...",
+  "common.amount": "Kiasi ({currency})",
+  "common.amountPlaceholder": "Weka kiasi",
+  "common.noteOptional": "Maelezo (si lazima)",
+
+  // Goal status, forecast and plan frequency labels
+  "status.Active": "Hai",
+  "status.Due soon": "Inakaribia",
+  "status.Overdue": "Imechelewa",
+  "status.Completed": "Imekamilika",
+  "forecast.complete": "Lengo limefikiwa",
+  "forecast.ahead": "Mbele ya ratiba",
+  "forecast.on-track": "Kwenye ratiba",
+  "forecast.behind": { one: "Nyuma kwa siku {count}", other: "Nyuma kwa siku {count}" },
+  "forecast.no-progress": "Bado hakuna maendeleo",
+  "frequency.weekly": "Kila wiki",
+  "frequency.biweekly": "Kila wiki mbili",
+  "frequency.monthly": "Kila mwezi",
+
+  // Theme switcher
+  "theme.label": "Mandhari",
+  "theme.light": "Mwanga",
+  "theme.dark": "Giza",
+  "theme.system": "Kama mfumo",
+
+  // Dashboard (Index.tsx)
+  "index.metaTitle": "Smart Goal Planner — Fuatilia Malengo Yako ya Akiba",
+  "index.metaDescription": "Unda, simamia na ufuatilie malengo mengi ya akiba kwa amana, maendeleo na tarehe za mwisho.",
+  "index.ogDescription": "Simamia malengo ya akiba, weka amana na uone maendeleo.",
+  "index.analytics": "Takwimu",
+  "index.categories": "Kategoria",
+  "index.settings": "Mipangilio",
+  "index.addGoal": "Ongeza Lengo",
+  "index.subtitle": "Simamia malengo mengi ya akiba, gawa amana na ufuatilie maendeleo yako kwa tarehe za mwisho zilizo wazi.",
+  "index.loading": "Inapakia malengo...",
+  "index.loadFailed": "Imeshindwa kupakia malengo.",
+  "index.overviewHeading": "Muhtasari",
+  "index.goalsHeading": "Malengo",
+  "index.noMatches": "Hakuna malengo yanayolingana na vichujio hivi.",
+  "index.clearFilters": "Futa vichujio",
+  "index.empty": "Bado hakuna malengo. Bofya \"Ongeza Lengo\" ili kuanza.",
+
+  // Goal card
+  "goalCard.fixIssues": "Hariri lengo au historia yake ili kurekebisha hili.",
+  "goalCard.progress": "Maendeleo",
+  "goalCard.saved": "Akiba",
+  "goalCard.target": "Kiasi lengwa",
+  "goalCard.remaining": "Kilichobaki",
+  "goalCard.deadline": "Tarehe ya mwisho",
+  "goalCard.needed": "Kinachohitajika",
+  "goalCard.forecast": "Utabiri",
+  "goalCard.nextContribution": "Mchango unaofuata: {amount} tarehe {date} ({frequency})",
+  "goalCard.planEnded": "Mpango wa michango umekwisha",
+
+  // Goal detail page (GoalDetail.tsx); shares its labels with the goal card
+  "goalDetail.loading": "Inapakia lengo...",
+  "goalDetail.loadFailed": "Imeshindwa kupakia lengo.",
+  "goalDetail.notFoundMetaTitle": "Lengo halikupatikana — Smart Goal Planner",
+  "goalDetail.notFoundTitle": "Lengo halikupatikana",
+  "goalDetail.notFoundMessage": "Lengo hili halipo. Huenda limefutwa, labda kwenye kifaa kingine, au kiungo hakijakamilika.",
+  "goalDetail.backToGoals": "Rudi kwenye malengo",
+  "goalDetail.metaTitle": "{name} — Smart Goal Planner",
+  "goalDetail.metaDescription": "Maendeleo, utabiri na historia ya lengo la akiba {name}.",
+  "goalDetail.created": "Liliundwa {date}",
+  "goalDetail.savedOfTarget": "{saved} kati ya {target}",
+  "goalDetail.timeLeft": "Muda uliobaki",
+  "goalDetail.daysLeft": { one: "Siku {count}", other: "Siku {count}" },
+  "goalDetail.daysOverdue": { one: "Imechelewa siku {count}", other: "Imechelewa siku {count}" },
+  "goalDetail.projected": "Tarehe ya kukamilika inayotarajiwa",
+  "goalDetail.pace": "Kasi ya sasa",
+
+  // Goal actions (GoalActions.tsx)
+  "goalActions.deposit": "Weka",
+  "goalActions.withdraw": "Toa",
+  "goalActions.transfer": "Hamisha",
+  "goalActions.edit": "Hariri",
+  "goalActions.history": "Historia",
+  "goalActions.schedule": "Ratiba",
+  "goalActions.addSchedule": "Ongeza ratiba",
+  "goalActions.delete": "Futa",
+  "goalActions.deleteTitle": "Ufute lengo hili?",
+  "goalActions.deleteDescription": "Kitendo hiki hakiwezi kutenduliwa. Lengo litafutwa kabisa.",
+
+  // Notifications for goal changes (use-goal-actions.ts)
+  "goalToast.created": "Lengo limeundwa",
+  "goalToast.createdOffline": "Lengo limehifadhiwa nje ya mtandao; litasawazishwa seva ikipatikana",
+  "goalToast.createFailed": "Imeshindwa kuunda lengo",
+  "goalToast.updated": "Lengo limesasishwa",
+  "goalToast.updateConflict": "Toleo jipya zaidi limepakiwa. Likague kisha uhifadhi tena.",
+  "goalToast.updateFailed": "Imeshindwa kusasisha lengo",
+  "goalToast.deleted": "Lengo limefutwa",
+  "goalToast.deleteFailed": "Imeshindwa kufuta lengo",
+  "goalToast.deposited": "Amana imewekwa",
+  "goalToast.depositedOffline": "Amana imehifadhiwa nje ya mtandao; itasawazishwa seva ikipatikana",
+  "goalToast.depositConflict": "Amana yako haikuhifadhiwa. Salio jipya zaidi limepakiwa.",
+  "goalToast.reapplyDeposit": "Weka amana tena",
+  "goalToast.depositFailed": "Amana imeshindwa",
+  "goalToast.withdrawn": "Utoaji umerekodiwa",
+  "goalToast.withdrawFailed": "Utoaji umeshindwa",
+  "goalToast.transferred": "Uhamisho umekamilika",
+  "goalToast.transferFailed": "Uhamisho umeshindwa",
+
+  // Goal form
+  "goalForm.createTitle": "Unda Lengo",
+  "goalForm.editTitle": "Hariri Lengo",
+  "goalForm.createDescription": "Weka lengo jipya la akiba lenye kiasi lengwa na tarehe ya mwisho.",
+  "goalForm.editDescription": "Sasisha maelezo ya lengo lako na uhifadhi mabadiliko.",
+  "goalForm.name": "Jina la Lengo",
+  "goalForm.namePlaceholder": "mf., Akiba ya Dharura",
+  "goalForm.nameHint": "Jina linaloeleza lengo lako la akiba",
+  "goalForm.nameRequired": "Jina la lengo linahitajika",
+  "goalForm.targetAmount": "Kiasi Lengwa",
+  "goalForm.targetAmountHint": "Jumla ya kiasi unachotaka kuweka akiba",
+  "goalForm.targetAmountMin": "Kiasi lengwa lazima kiwe angalau 1",
+  "goalForm.currency": "Sarafu",
+  "goalForm.currencyHintCreate": "Kiasi lengwa na amana ziko katika sarafu hii",
+  "goalForm.currencyHintEdit": "Amana hurekodiwa katika sarafu hii; haiwezi kubadilishwa",
+  "goalForm.category": "Kategoria",
+  "goalForm.categoryPlaceholder": "Chagua kategoria",
+  "goalForm.categoryHint": "Chagua kategoria ili kupanga malengo vizuri.",
+  "goalForm.manageCategories": "Simamia kategoria",
+  "goalForm.categoryRequired": "Kategoria inahitajika",
+  "goalForm.deadline": "Tarehe ya Mwisho",
+  "goalForm.deadlinePlaceholder": "Chagua tarehe",
+  "goalForm.deadlineHint": "Tarehe unayolenga kufikia lengo hili",
+  "goalForm.deadlineRequired": "Tarehe ya mwisho inahitajika",
+  "goalForm.saving": "Inahifadhi...",
+  "goalForm.save": "Hifadhi Lengo",
+
+  // Deposit dialog
+  "deposit.title": "Weka Amana",
+  "deposit.description": "Ongeza pesa kwenye lengo hili ili kufuatilia maendeleo yako",
+  "deposit.amount": "Kiasi ({currency})",
+  "deposit.amountPlaceholder": "Weka kiasi",
+  "deposit.amountHint": "Weka kiasi unachotaka kuongeza kwenye lengo hili",
+  "deposit.note": "Maelezo (si lazima)",
+  "deposit.notePlaceholder": "mf., mshahara wa Machi",
+  "deposit.processing": "Inashughulikiwa...",
+  "deposit.submit": "Weka",
+
+  // Withdraw and transfer dialogs
+  "withdraw.title": "Toa Pesa",
+  "withdraw.description": "Toa pesa kutoka kwenye lengo hili. Zinazopatikana: {amount}",
+  "withdraw.exceeds": "Huwezi kutoa zaidi ya {amount}",
+  "withdraw.reason": "Sababu",
+  "withdraw.reasonPlaceholder": "Chagua sababu",
+  "withdraw.notePlaceholder": "mf., Kutengeneza gari",
+  "withdraw.submit": "Toa",
+  "reason.emergency": "Dharura",
+  "reason.purchase": "Ununuzi",
+  "reason.reallocation": "Kuhamisha matumizi",
+  "reason.other": "Nyingine",
+  "transfer.title": "Hamishia Lengo Lingine",
+  "transfer.description": "Hamisha akiba kutoka {name}. Zinazopatikana: {amount}",
+  "transfer.destination": "Lengo la kupokea",
+  "transfer.destinationPlaceholder": "Chagua lengo",
+  "transfer.noDestinations": "Unda lengo lingine ili kuhamishia pesa.",
+  "transfer.exceeds": "Huwezi kuhamisha zaidi ya {amount}",
+  "transfer.receives": "{name} inapokea {amount}",
+  "transfer.missingRate": "Ongeza viwango vya ubadilishaji vya {from} na {to} ili kuhamisha kati yao",
+  "transfer.notePlaceholder": "mf., Kilichobaki baada ya huduma",
+  "transfer.submit": "Hamisha",
+
+  // Ledger (TransactionList and TransactionHistoryDialog)
+  "history.title": "Historia",
+  "history.description": "Amana, utoaji na uhamisho uliorekodiwa kwa {name}",
+  "ledger.loading": "Inapakia historia...",
+  "ledger.loadFailed": "Imeshindwa kupakia historia.",
+  "ledger.empty": "Hakuna miamala iliyorekodiwa bado.",
+  "ledger.amount": "Kiasi",
+  "ledger.note": "Maelezo",
+  "ledger.pending": "Inasubiri",
+  "ledger.to": "Kwenda {name}",
+  "ledger.from": "Kutoka {name}",
+  "ledger.deletedGoal": "lengo lililofutwa",
+  "ledger.updated": "Muamala umesasishwa",
+  "ledger.updateFailed": "Imeshindwa kusasisha muamala",
+  "ledger.deleted": "Muamala umefutwa",
+  "ledger.deleteFailed": "Imeshindwa kufuta muamala",
+
+  // Overview statistics
+  "overview.totalGoals": "Jumla ya Malengo",
+  "overview.totalGoalsHint": "Malengo ya akiba yanayoendelea",
+  "overview.totalSaved": "Jumla ya Akiba",
+  "overview.totalSavedHint": "katika malengo yote",
+  "overview.totalTarget": "Jumla Lengwa",
+  "overview.totalTargetHint": "malengo yote kwa pamoja",
+  "overview.overallProgress": "Maendeleo kwa Jumla",
+  "overview.completed": { one: "{completed} kati ya lengo {count} limekamilika", other: "{completed} kati ya malengo {count} yamekamilika" },
+  "overview.totalsIn": "Jumla ziko katika {currency}.",
+  "overview.missingRates": "Malengo ya {currencies} hayajajumuishwa hadi uongeze kiwango cha ubadilishaji.",
+  "overview.exchangeRates": "Viwango vya ubadilishaji",
+  "overview.requiredPerMonth": "Unahitaji {amount} katika malengo yote ili kufikia kila tarehe ya mwisho.",
+
+  // Goal data problems (getGoalIssueCodes in src/types/goal.ts)
+  "goalIssue.target-not-positive": "Kiasi lengwa lazima kiwe zaidi ya sifuri",
+  "goalIssue.negative-saved": "Kiasi cha akiba ni hasi",
+  "goalIssue.implausible-overshoot": "Kiasi cha akiba ni zaidi ya mara {times} ya kiasi lengwa",
+  "goalIssue.deadline-before-created": "Tarehe ya mwisho iko kabla ya tarehe ya kuundwa",
+
+  // Goal toolbar: search, filters and sort
+  "toolbar.search": "Tafuta malengo",
+  "toolbar.searchLabel": "Tafuta malengo kwa jina",
+  "toolbar.categoryLabel": "Chuja kwa kategoria",
+  "toolbar.allCategories": "Kategoria zote",
+  "toolbar.statusLabel": "Chuja kwa hali",
+  "toolbar.anyStatus": "Hali yoyote",
+  "toolbar.dueFrom": "Mwisho kuanzia tarehe",
+  "toolbar.dueTo": "Mwisho hadi tarehe",
+  "toolbar.sortLabel": "Panga malengo",
+  "toolbar.dateAdded": "Tarehe ya kuongezwa",
+  "toolbar.sortAscending": "Panga kwa kupanda",
+  "toolbar.sortDescending": "Panga kwa kushuka",
+  "toolbar.ascending": "Kupanda",
+  "toolbar.descending": "Kushuka",
+  "toolbar.clear": "Futa",
+  "sort.deadline": "Tarehe ya mwisho",
+  "sort.progress": "Maendeleo",
+  "sort.remaining": "Kilichobaki",
+  "sort.target": "Kiasi lengwa",
+
+  // Saved view tabs and the save/rename dialog
+  "views.all": "Malengo yote",
+  "views.defaultView": "Mwonekano chaguo-msingi",
+  "views.save": "Hifadhi mwonekano",
+  "views.options": "Chaguo za {name}",
+  "views.openByDefault": "Fungua kwa chaguo-msingi",
+  "views.dontOpenByDefault": "Usifungue kwa chaguo-msingi",
+  "views.rename": "Badilisha jina",
+  "views.delete": "Futa",
+  "views.saved": "Mwonekano umehifadhiwa",
+  "views.saveFailed": "Imeshindwa kuhifadhi mwonekano",
+  "views.renamed": "Jina la mwonekano limebadilishwa",
+  "views.renameFailed": "Imeshindwa kubadilisha jina la mwonekano",
+  "views.defaultCleared": "Mwonekano chaguo-msingi umeondolewa",
+  "views.defaultSet": "\"{name}\" hufunguka kwa chaguo-msingi",
+  "views.defaultFailed": "Imeshindwa kubadilisha mwonekano chaguo-msingi",
+  "views.deleted": "Mwonekano umefutwa",
+  "views.deleteFailed": "Imeshindwa kufuta mwonekano",
+  "viewDialog.saveTitle": "Hifadhi Mwonekano",
+  "viewDialog.renameTitle": "Badilisha Jina la Mwonekano",
+  "viewDialog.saveDescription": "Hifadhi utafutaji, vichujio na mpangilio wa sasa kama kichupo juu ya malengo.",
+  "viewDialog.renameDescription": "Mionekano inashirikiwa na kila mtu anayetumia mpangaji huu.",
+  "viewDialog.name": "Jina",
+  "viewDialog.namePlaceholder": "mf., Safari pekee",
+  "viewDialog.openByDefault": "Fungua mwonekano huu kwa chaguo-msingi",
+  "viewDialog.saving": "Inahifadhi...",
+
+  // Pending contributions
+  "pending.title": "Michango inayosubiri ({count})",
+  "pending.dismiss": "Ondoa zilizochaguliwa",
+  "pending.confirm": "Thibitisha zilizochaguliwa",
+  "pending.unknownGoal": "Lengo lisilojulikana",
+  "pending.confirmed": { one: "Mchango umethibitishwa", other: "Michango {count} imethibitishwa" },
+  "pending.dismissed": { one: "Mchango umeondolewa", other: "Michango {count} imeondolewa" },
+  "pending.confirmFailed": "Imeshindwa kuthibitisha michango",
+  "pending.dismissFailed": "Imeshindwa kuondoa michango",
+  "pending.planNote": "Mchango uliopangwa",
+
+  // Settings page
+  "settings.metaTitle": "Mipangilio — Smart Goal Planner",
+  "settings.metaDescription": "Chagua lugha, eneo, sarafu ya msingi, muundo wa tarehe na siku ya kwanza ya wiki vinavyotumika katika programu.",
+  "settings.title": "Mipangilio",
+  "settings.subtitle": "Lugha ya programu na jinsi kiasi na tarehe zinavyoonyeshwa. Mipangilio huhifadhiwa pamoja na malengo yako, kwa hivyo kila kifaa kinachotumia data hiyo hiyo huona muundo ule ule.",
+  "settings.loading": "Inapakia mipangilio...",
+  "settings.loadFailed": "Imeshindwa kupakia mipangilio; mipangilio ya kawaida inatumika kwa sasa.",
+  "settings.saveFailed": "Imeshindwa kuhifadhi mipangilio",
+  "settings.displayTitle": "Mwonekano",
+  "settings.displayDescription": "Mabadiliko yanatumika mara tu yanapochaguliwa",
+  "settings.language": "Lugha",
+  "settings.locale": "Eneo la muundo wa namba na tarehe",
+  "settings.browserLocale": "Chaguo-msingi la kivinjari",
+  "settings.baseCurrencyHint": "Jumla zinabadilishwa kwa viwango vilivyowekwa kwenye dashibodi. Kila lengo linabaki na sarafu yake.",
+  "settings.dateFormat": "Muundo wa tarehe",
+  "settings.followsRegion": "(hufuata eneo)",
+  "settings.weekStart": "Siku ya kwanza ya wiki",
+  "settings.previewTitle": "Onyesho la awali",
+  "settings.previewDescription": "Kiasi huonyeshwa kila mara kwa sarafu yake",
+  "settings.previewDate": "Tarehe",
+  "settings.previewCompleted": "Imekamilika",
+  "weekday.0": "Jumapili",
+  "weekday.1": "Jumatatu",
+  "weekday.6": "Jumamosi",
+
+  // Analytics page and its charts (CategoryCharts, VelocityChart)
+  "analytics.metaTitle": "Takwimu — Smart Goal Planner",
+  "analytics.metaDescription": "Ona jinsi akiba inavyogawanyika kwa kategoria, malengo yaliyopitwa na wakati na kiasi kinachowekwa kila mwezi.",
+  "analytics.title": "Takwimu",
+  "analytics.subtitle": "Akiba yako inakoenda, kwa kategoria na kwa mwezi. Kiasi kiko kwa {currency}.",
+  "analytics.missingRates": "Malengo ya {currencies} hayajumuishwi hadi yawe na kiwango cha ubadilishaji (kinawekwa kwenye dashibodi).",
+  "analytics.empty": "Bado hakuna malengo. Ongeza malengo kwenye dashibodi ili kuona mgawanyo wake.",
+  "analytics.byCategoryTitle": "Akiba kwa kategoria",
+  "analytics.byCategoryDescription": "Sehemu ya akiba yote hadi sasa",
+  "analytics.nothingSaved": "Bado hakuna akiba.",
+  "analytics.vsTargetTitle": "Akiba dhidi ya lengo",
+  "analytics.vsTargetDescription": "Kila kategoria imeweka kiasi gani na malengo yake bado yanahitaji kiasi gani",
+  "analytics.categoriesTitle": "Kategoria",
+  "analytics.noneOverdue": "Hakuna lengo lililopitwa na tarehe ya mwisho.",
+  "analytics.overdue": {
+    one: "Lengo {count} limepita tarehe ya mwisho bila kufikia kiasi lengwa.",
+    other: "Malengo {count} yamepita tarehe ya mwisho bila kufikia kiasi lengwa.",
+  },
+  "analytics.colCategory": "Kategoria",
+  "analytics.colGoals": "Malengo",
+  "analytics.colSaved": "Akiba",
+  "analytics.colTarget": "Kiasi lengwa",
+  "analytics.colCompleted": "Yaliyokamilika",
+  "analytics.colOverdue": "Yaliyochelewa",
+  "analytics.completionRate": "Kiwango cha ukamilishaji cha {name}",
+  "analytics.velocityTitle": "Kasi ya kuweka akiba",
+  "analytics.velocityDescription": "Amana na utoaji kwa mwezi; uliweka wastani wa {amount} kwa mwezi katika miezi {count} iliyopita. Uhamisho kati ya malengo haujajumuishwa.",
+  "analytics.deposited": "Zilizowekwa",
+  "analytics.withdrawn": "Zilizotolewa",
+  "analytics.saved": "Akiba",
+  "analytics.savedTotal": "akiba",
+  "analytics.stillNeeded": "Bado kinahitajika",
+
+  // Categories page and its dialogs (CategoryDialog, MoveCategoryDialog)
+  "categories.metaTitle": "Kategoria — Smart Goal Planner",
+  "categories.metaDescription": "Unda, badilisha jina, unganisha na ufute kategoria zinazotumika kupanga malengo ya akiba.",
+  "categories.title": "Kategoria",
+  "categories.add": "Ongeza Kategoria",
+  "categories.subtitle": "Kubadilisha jina la kategoria au kuiunganisha kunasasisha kila lengo linaloitumia.",
+  "categories.loading": "Inapakia kategoria...",
+  "categories.loadFailed": "Imeshindwa kupakia kategoria.",
+  "categories.goalCount": { one: "Lengo {count}", other: "Malengo {count}" },
+  "categories.merge": "Unganisha",
+  "categories.empty": "Bado hakuna kategoria. Bofya \"Ongeza Kategoria\" kuunda moja.",
+  "categories.created": "Kategoria imeundwa",
+  "categories.createFailed": "Imeshindwa kuunda kategoria",
+  "categories.updated": "Kategoria imesasishwa",
+  "categories.updateFailed": "Imeshindwa kusasisha kategoria",
+  "categories.merged": "Imeunganishwa na {name}",
+  "categories.deleted": "Kategoria imefutwa",
+  "categoryDialog.editTitle": "Hariri Kategoria",
+  "categoryDialog.newTitle": "Kategoria Mpya",
+  "categoryDialog.editDescription": "Kubadilisha jina la kategoria kunasasisha pia kila lengo linaloitumia.",
+  "categoryDialog.newDescription": "Ongeza kategoria ili kupanga malengo yako.",
+  "categoryDialog.name": "Jina",
+  "categoryDialog.namePlaceholder": "mf., Usafiri",
+  "categoryDialog.color": "Rangi",
+  "categoryDialog.icon": "Aikoni",
+  "categoryDialog.submit": "Hifadhi Kategoria",
+  "moveCategory.mergeTitle": "Unganisha \"{name}\"",
+  "moveCategory.deleteTitle": "Ufute \"{name}\"?",
+  "moveCategory.inUse": {
+    one: "Lengo {count} linatumia kategoria hii. Chagua mahali pa kulihamishia; \"{name}\" itaondolewa.",
+    other: "Malengo {count} yanatumia kategoria hii. Chagua mahali pa kuyahamishia; \"{name}\" itaondolewa.",
+  },
+  "moveCategory.unused": "Hakuna lengo linalotumia kategoria hii. Kitendo hiki hakiwezi kutenduliwa.",
+  "moveCategory.mergeInto": "Unganisha na",
+  "moveCategory.moveTo": "Hamishia malengo kwa",
+  "moveCategory.targetPlaceholder": "Chagua kategoria",
+  "moveCategory.working": "Inashughulikiwa...",
+
+  // Contribution plan and notes (ContributionPlanDialog, GoalNotes)
+  "plan.title": "Mchango wa Kujirudia",
+  "plan.description": "Panga amana ya mara kwa mara. Michango inayofika wakati wake huonekana kama amana zinazosubiri uthibitishe.",
+  "plan.frequency": "Marudio",
+  "plan.startDate": "Tarehe ya kuanza",
+  "plan.endDate": "Tarehe ya mwisho (si lazima)",
+  "plan.endBeforeStart": "Tarehe ya mwisho lazima iwe baada ya tarehe ya kuanza",
+  "plan.remove": "Ondoa mpango",
+  "plan.save": "Hifadhi mpango",
+  "notes.label": "Maelezo",
+  "notes.placeholder": "Kwa nini lengo hili ni muhimu, pesa zinawekwa wapi, chochote cha kukumbuka…",
+  "notes.discard": "Tupa mabadiliko",
+  "notes.save": "Hifadhi maelezo",
+
+  // Exchange rates (ExchangeRatesDialog)
+  "rates.title": "Viwango vya Ubadilishaji",
+  "rates.description": "Jumla zinaonyeshwa kwa sarafu ya msingi. Malengo ya sarafu isiyo na kiwango hayajumuishwi.",
+  "rates.baseCurrency": "Sarafu ya msingi",
+  "rates.baseFailed": "Imeshindwa kubadilisha sarafu ya msingi",
+  "rates.unlinked": "Viwango ulivyohifadhi ni dhidi ya {stored}. Weka kiwango cha {stored} kwanza ili vionyeshwe kwa {base}.",
+  "rates.rateLabel": "1 {code} =",
+  "rates.noRate": "Hakuna kiwango",
+  "rates.add": "Ongeza sarafu",
+
+  // Progress over time (OverallProgressChart and BurnUpChart)
+  "progressChart.title": "Maendeleo kwa muda",
+  "progressChart.description": "Malengo yote kwa pamoja, dhidi ya kasi inayofikia kila tarehe ya mwisho",
+  "burnUp.saved": "Akiba",
+  "burnUp.ideal": "Kasi bora",
+  "burnUp.target": "Kiasi lengwa",
+
+  // Offline sync indicator (SyncStatus)
+  "sync.syncing": "Inasawazisha…",
+  "sync.offline": "Nje ya mtandao",
+  "sync.offlineQueued": "Nje ya mtandao · {count} zinasubiri",
+  "sync.queued": "{count} zinasubiri",
+  "sync.synced": "Imesawazishwa",
+  "sync.label": "Hali ya usawazishaji: {label}",
+  "sync.offlineHint": "Seva haifikiwi. Unaweza kuendelea kuongeza malengo na amana; zitatumwa kwa mpangilio seva ikirudi.",
+  "sync.sending": "Inatuma mabadiliko yaliyofanywa nje ya mtandao…",
+  "sync.allSaved": "Mabadiliko yote yamehifadhiwa kwenye seva.",
+  "sync.now": "Sawazisha sasa",
+  "sync.notSynced": "Hayajasawazishwa",
+  "sync.dismiss": "Ondoa",
+  "sync.newGoal": "Lengo jipya \"{name}\"",
+  "sync.deposit": "Amana ya {amount} kwa \"{name}\"",
+  "sync.depositUnknownGoal": "Amana ya {amount} kwa lengo",
+
+  // API errors, by the code the API layer attaches (src/api/errors.ts)
+  "error.network": "Seva haifikiwi. Angalia muunganisho wako na ujaribu tena.",
+  "error.server": "Hitilafu imetokea kwenye seva. Tafadhali jaribu tena.",
+  "error.rejected": "Seva imekataa badiliko hili",
+  "error.conflict": "Kipengee hiki kimebadilishwa mahali pengine. Pakia upya na ujaribu tena.",
+  "error.invalid": "Baadhi ya sehemu si sahihi",
+  "error.not-found.goal": "Lengo hili halipo tena",
+  "error.not-found.transaction": "Muamala huu haupo tena",
+  "error.not-found.category": "Kategoria hii haipo tena",
+  "error.not-found.saved-view": "Mwonekano huu haupo tena",
+  "error.not-found.transfer": "Uhamisho huu haupo tena",
+  "error.not-found.item": "Kipengee hiki hakipo tena",
+  "error.goal-changed": "Lengo hili limebadilishwa kwenye kifaa kingine",
+  "error.insufficient-funds": "Akiba ya lengo hili haitoshi kwa badiliko hili",
+  "error.amount-not-positive": "Kiasi lazima kiwe zaidi ya sifuri",
+  "error.same-goal-transfer": "Chagua lengo tofauti la kuhamishia",
+  "error.already-settled": "Mchango huu tayari umethibitishwa au kuondolewa kwenye kifaa kingine",
+  "error.goal-has-transfers": "Lengo hili lina uhamisho kwenda au kutoka malengo mengine; futa uhamisho huo kwanza ili malengo mengine yabaki sawa",
+  "error.transfer-leg": "Uhamisho hauwezi kubadilishwa upande mmoja tu; futa uhamisho wote badala yake",
+  "error.category-exists": "Kategoria yenye jina \"{name}\" tayari ipo",
+  "error.category-in-use": "Kategoria hii bado inatumiwa na malengo; chagua kategoria ya kuyahamishia",
+  "error.same-category-merge": "Chagua kategoria tofauti ya kuunganisha",
+  "error.view-exists": "Mwonekano wenye jina \"{name}\" tayari upo",
+
+  // 404 page
+  "notFound.message": "Samahani! Ukurasa haukupatikana",
+  "notFound.home": "Rudi Mwanzo",
+};
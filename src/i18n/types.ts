@@ -0,0 +1,12 @@
+// Shapes of the message catalogs
+
+// A message with a form per plural category of the language, e.g. { one: "1 day", other: "{count} days" }
+// `other` is required because every language has it
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type Catalog = Record<string, Message>;
+
+// Values filled into `{name}` placeholders; `count` also picks the plural form
+export type MessageParams = Record<string, string | number>;
@@ -0,0 +1,79 @@
+import { format, parseISO, startOfMonth, subMonths } from "date-fns";
+import { DEFAULT_CATEGORY_COLOR } from "@/lib/category-icons";
+import { daysLeft } from "@/lib/forecast";
+import { findCategory, sameCategory, type Category } from "@/types/category";
+import { Goal, getRemaining } from "@/types/goal";
+import { Transaction, isPending, isTransfer } from "@/types/transaction";
+
+// Totals for the goals in one category
+export interface CategoryBreakdown {
+  name: string; // Category name as managed on the Categories page (or as stored on the goals when unknown)
+  color: string; // hex color
+  goals: number;
+  saved: number;
+  target: number;
+  remaining: number; // Still needed across the category's unfinished goals
+  completed: number; // Goals that reached their target
+  completionRate: number; // completed / goals, 0-1
+  overdue: number; // Unfinished goals past their deadline
+}
+
+const isComplete = (g: Goal) => g.targetAmount > 0 && g.savedAmount >= g.targetAmount;
+
+// Group goals by category (case-insensitively, like everywhere else) and total each group
+// Sorted by saved amount, largest first
+export function getCategoryBreakdown(goals: Goal[], categories: Category[]): CategoryBreakdown[] {
+  const groups: Goal[][] = [];
+  for (const goal of goals) {
+    const group = groups.find((g) => sameCategory(g[0].category, goal.category));
+    if (group) group.push(goal);
+    else groups.push([goal]);
+  }
+
+  return groups
+    .map((group) => {
+      const category = findCategory(categories, group[0].category);
+      const completed = group.filter(isComplete).length;
+      return {
+        name: category?.name ?? group[0].category,
+        color: category?.color ?? DEFAULT_CATEGORY_COLOR,
+        goals: group.length,
+        saved: group.reduce((sum, g) => sum + g.savedAmount, 0),
+        target: group.reduce((sum, g) => sum + g.targetAmount, 0),
+        remaining: group.reduce((sum, g) => sum + getRemaining(g), 0),
+        completed,
+        completionRate: completed / group.length,
+        overdue: group.filter((g) => !isComplete(g) && daysLeft(g.deadline) < 0).length,
+      };
+    })
+    .sort((a, b) => b.saved - a.saved);
+}
+
+// Money put in and taken out during one calendar month
+export interface MonthlyVelocity {
+  month: string; // YYYY-MM
+  deposited: number;
+  withdrawn: number;
+  net: number;
+}
+
+// Savings velocity for the last `months` calendar months, oldest first, including the current one
+// Transfers only move money between goals, so they are left out; pending entries don't count until confirmed
+export function getMonthlyVelocity(transactions: Transaction[], months = 12, today = new Date()): MonthlyVelocity[] {
+  const buckets = new Map<string, MonthlyVelocity>();
+  for (let i = months - 1; i >= 0; i--) {
+    const month = format(subMonths(startOfMonth(today), i), "yyyy-MM");
+    buckets.set(month, { month, deposited: 0, withdrawn: 0, net: 0 });
+  }
+
+  for (const t of transactions) {
+    if (isPending(t) || isTransfer(t)) continue;
+    const bucket = buckets.get(format(parseISO(t.date), "yyyy-MM"));
+    if (!bucket) continue;
+    if (t.type === "withdrawal") bucket.withdrawn += t.amount;
+    else bucket.deposited += t.amount;
+    bucket.net = bucket.deposited - bucket.withdrawn;
+  }
+
+  return [...buckets.values()];
+}
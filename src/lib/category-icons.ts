@@ -0,0 +1,48 @@
+import {
+  Baby,
+  Briefcase,
+  Building2,
+  Car,
+  Gift,
+  GraduationCap,
+  Heart,
+  Home,
+  Laptop,
+  PartyPopper,
+  PiggyBank,
+  Plane,
+  ShieldCheck,
+  ShoppingBag,
+  Tag,
+  Umbrella,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+
+// Icons a category can use, keyed by the value stored in `Category.icon`
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  "piggy-bank": PiggyBank,
+  shield: ShieldCheck,
+  plane: Plane,
+  home: Home,
+  building: Building2,
+  car: Car,
+  wrench: Wrench,
+  education: GraduationCap,
+  umbrella: Umbrella,
+  shopping: ShoppingBag,
+  laptop: Laptop,
+  gift: Gift,
+  party: PartyPopper,
+  heart: Heart,
+  baby: Baby,
+  briefcase: Briefcase,
+  tag: Tag,
+};
+
+export const DEFAULT_CATEGORY_ICON = "tag";
+
+export const DEFAULT_CATEGORY_COLOR = "#64748b";
+
+export const getCategoryIcon = (icon: string | undefined) =>
+  CATEGORY_ICONS[icon ?? DEFAULT_CATEGORY_ICON] ?? Tag;
@@ -0,0 +1,117 @@
+// Currencies, money amounts, exchange rates and conversion into the user's base currency
+// Goal amounts are always stored in the goal's own currency; conversion only happens for display and totals.
+// Amounts are integers in the currency's minor unit (cents for USD and EUR, whole yen for JPY), so sums are exact;
+// they are only turned into decimals to be shown or typed in.
+// Imported by goal-schema.ts, so imports stay relative and nothing here touches the browser
+
+import type { Goal } from "../types/goal";
+import type { Transaction } from "../types/transaction";
+
+// Goals saved before goals had a currency were all in US dollars
+export const DEFAULT_CURRENCY = "USD";
+
+// Currencies offered in the goal form and the exchange-rate table (ISO 4217 codes)
+export const CURRENCY_CODES = ["USD", "EUR", "GBP", "KES", "UGX", "TZS", "NGN", "ZAR", "CAD", "AUD", "JPY", "INR"];
+
+// Rates relative to the base currency: `rates.EUR = 1.08` means one euro is worth 1.08 of the base currency
+// Missing rates are unknown, never guessed
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = { base: DEFAULT_CURRENCY, rates: {} };
+
+// Number of decimals in a currency's minor unit: 2 for USD, 0 for JPY and UGX
+export const getMinorDigits = (currency: string) =>
+  new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+
+// Smallest amount that can be typed in for a currency, e.g. 0.01; used as the `step` of amount inputs
+export const getMinorStep = (currency: string) => 10 ** -getMinorDigits(currency);
+
+// Decimal amount (e.g. 12.34 dollars) to integer minor units (1234 cents)
+export const toMinorUnits = (major: number, currency: string) => Math.round(major * 10 ** getMinorDigits(currency));
+
+// Integer minor units back to a decimal amount, for inputs and charts
+export const toMajorUnits = (minor: number, currency: string) => minor / 10 ** getMinorDigits(currency);
+
+// Read an amount typed by the user; undefined when it isn't a positive number with at most the currency's decimals
+export function parseAmount(input: string, currency: string) {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(input.trim());
+  const digits = getMinorDigits(currency);
+  if (!match || (match[1] === "" && !match[2]) || (match[2] ?? "").length > digits) return undefined;
+  // Whole and fractional parts are combined as integers so "0.29" is exactly 29 cents
+  const minor = Number(match[1] || "0") * 10 ** digits + Number((match[2] ?? "").padEnd(digits, "0") || "0");
+  return minor > 0 && Number.isSafeInteger(minor) ? minor : undefined;
+}
+
+// Currency a goal's amounts are in
+export const getGoalCurrency = (goal: { currency?: string }) => goal.currency ?? DEFAULT_CURRENCY;
+
+// Value of one unit of `code` in the base currency, if known
+export const getRate = (table: ExchangeRates, code: string) => (code === table.base ? 1 : table.rates[code]);
+
+// Convert minor units between two currencies through the base currency; undefined when a rate is missing
+// The result is rounded to a whole minor unit of the target currency
+export function convert(amount: number, from: string, to: string, table: ExchangeRates) {
+  if (from === to) return amount;
+  const fromRate = getRate(table, from);
+  const toRate = getRate(table, to);
+  if (!fromRate || !toRate) return undefined;
+  return toMinorUnits((toMajorUnits(amount, from) * fromRate) / toRate, to);
+}
+
+// Express the table against another base currency
+// Rates that can't be carried over (the new base has no rate yet) are dropped
+export function rebase(table: ExchangeRates, base: string): ExchangeRates {
+  if (base === table.base) return table;
+  const baseRate = table.rates[base];
+  if (!baseRate) return { base, rates: {} };
+  const round = (n: number) => Number(n.toPrecision(6)); // Keeps 1 / 1.08 readable in the rate inputs
+  const rates: Record<string, number> = { [table.base]: round(1 / baseRate) };
+  for (const [code, rate] of Object.entries(table.rates)) {
+    if (code !== base) rates[code] = round(rate / baseRate);
+  }
+  return { base, rates };
+}
+
+// Format an amount given in minor units, e.g. 123456 USD cents as "$1,234.56"
+// Components use the settings-aware formatter from src/hooks/use-formatter.ts; the browser's locale is used otherwise
+export const formatMoney = (amount: number, currency: string, locale?: string) =>
+  new Intl.NumberFormat(locale, { style: "currency", currency }).format(toMajorUnits(amount, currency));
+
+// Goals re-expressed in the base currency, for totals and charts across goals
+// Goals in a currency without a rate are left out and their currencies listed in `missing`
+export function goalsInBaseCurrency(goals: Goal[], table: ExchangeRates) {
+  const missing = new Set<string>();
+  const converted: Goal[] = [];
+  for (const goal of goals) {
+    const currency = getGoalCurrency(goal);
+    const rate = getRate(table, currency);
+    if (!rate) {
+      missing.add(currency);
+      continue;
+    }
+    converted.push(
+      currency === table.base
+        ? goal
+        : {
+            ...goal,
+            currency: table.base,
+            targetAmount: convert(goal.targetAmount, currency, table.base, table) ?? 0,
+            savedAmount: convert(goal.savedAmount, currency, table.base, table) ?? 0,
+            plan: goal.plan && { ...goal.plan, amount: convert(goal.plan.amount, currency, table.base, table) ?? 0 },
+          },
+    );
+  }
+  return { goals: converted, missing: [...missing] };
+}
+
+// Ledger entries re-expressed in the base currency; entries of goals that can't be converted are dropped
+export function ledgerInBaseCurrency(transactions: Transaction[], goals: Goal[], table: ExchangeRates) {
+  const currencyOf = new Map(goals.map((g) => [g.id, getGoalCurrency(g)]));
+  return transactions.flatMap((t) => {
+    const amount = convert(t.amount, currencyOf.get(t.goalId) ?? DEFAULT_CURRENCY, table.base, table);
+    return amount === undefined ? [] : [{ ...t, amount }];
+  });
+}
@@ -0,0 +1,96 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Goal, getRemaining } from "@/types/goal";
+import { Transaction, getSignedAmount, isPending } from "@/types/transaction";
+
+// Finishing up to this many days before the deadline still counts as "on track";
+// earlier than that is "ahead"
+const ON_TRACK_MARGIN_DAYS = 14;
+
+// Shortest history window used for the deposit pace, so a single deposit made
+// yesterday doesn't project an absurd daily rate
+const MIN_HISTORY_DAYS = 30;
+
+export type ForecastState = "complete" | "ahead" | "on-track" | "behind" | "no-progress";
+
+export interface Forecast {
+  state: ForecastState;
+  ratePerDay: number; // average net amount saved per day
+  projectedDate?: string; // YYYY-MM-DD, missing when there is no progress to extrapolate
+  daysFromDeadline?: number; // positive = finishes early, negative = finishes late
+}
+
+const parseDay = (d: string) => parseISO(d);
+
+// Average daily savings rate for a goal
+// Uses posted ledger entries when there are any, otherwise the saved amount spread over the goal's lifetime
+export function getSavingsRate(goal: Goal, transactions: Transaction[], today = new Date()) {
+  const history = transactions.filter((t) => t.goalId === goal.id && !isPending(t));
+
+  if (history.length > 0) {
+    const first = history.reduce((min, t) => (t.date < min ? t.date : min), history[0].date);
+    const days = Math.max(MIN_HISTORY_DAYS, differenceInCalendarDays(today, parseDay(first)));
+    const net = history.reduce((sum, t) => sum + getSignedAmount(t), 0);
+    return net / days;
+  }
+
+  const days = Math.max(1, differenceInCalendarDays(today, parseDay(goal.createdAt)));
+  return goal.savedAmount / days;
+}
+
+// Project when a goal will reach its target at the current pace and compare that to the deadline
+export function forecastCompletion(goal: Goal, transactions: Transaction[], today = new Date()): Forecast {
+  const ratePerDay = getSavingsRate(goal, transactions, today);
+  const remaining = getRemaining(goal);
+
+  if (remaining <= 0 && goal.targetAmount > 0) return { state: "complete", ratePerDay };
+  if (ratePerDay <= 0) return { state: "no-progress", ratePerDay };
+
+  const projected = addDays(today, Math.ceil(remaining / ratePerDay));
+  const daysFromDeadline = differenceInCalendarDays(parseDay(goal.deadline), projected);
+  const state: ForecastState =
+    daysFromDeadline < 0 ? "behind" : daysFromDeadline > ON_TRACK_MARGIN_DAYS ? "ahead" : "on-track";
+
+  return { state, ratePerDay, projectedDate: format(projected, "yyyy-MM-dd"), daysFromDeadline };
+}
+
+/**
+ * Calculates days remaining until deadline
+ * @param deadline - The deadline date string (YYYY-MM-DD format)
+ * @returns Number of days remaining (negative if overdue)
+ */
+export function daysLeft(deadline: string) {
+  const now = new Date();
+  const dl = new Date(deadline + "T00:00:00");
+  const diff = Math.ceil((dl.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  return diff;
+}
+
+// Status labels shown on goal cards, in the order they are offered as filters
+export const GOAL_STATUSES = ["Active", "Due soon", "Overdue", "Completed"] as const;
+
+export type GoalStatusLabel = (typeof GOAL_STATUSES)[number];
+
+export interface GoalStatus {
+  label: GoalStatusLabel;
+  tone: "success" | "destructive" | "warning" | "secondary";
+}
+
+/**
+ * Determines the status of a goal based on progress, deadline and projected completion
+ * @param goal - The goal object to evaluate
+ * @param forecast - Projection from forecastCompletion
+ * @returns Object with label and tone for styling
+ */
+export function getStatus(goal: Goal, forecast: Forecast): GoalStatus {
+  const complete = goal.savedAmount >= goal.targetAmount && goal.targetAmount > 0;
+  const left = daysLeft(goal.deadline);
+  const willMiss = forecast.state === "behind" || forecast.state === "no-progress";
+
+  if (complete) return { label: "Completed", tone: "success" };
+  if (left < 0) return { label: "Overdue", tone: "destructive" };
+  // A close deadline is only flagged when the current pace won't meet it
+  if (left <= 30 && willMiss) return { label: "Due soon", tone: "warning" };
+  // Further out, a goal that is falling behind keeps its label but is highlighted
+  if (willMiss) return { label: "Active", tone: "warning" };
+  return { label: "Active", tone: "secondary" };
+}
@@ -0,0 +1,52 @@
+// Formatting of money, dates and percentages according to the user's display settings
+// Components get a formatter from useFormatter (src/hooks/use-formatter.ts) so the whole app
+// follows the same locale and date format; nothing here touches React or the browser
+
+import { format, parseISO } from "date-fns";
+import { formatMoney } from "./currency";
+import type { Settings } from "../types/settings";
+
+export interface Formatter {
+  money(amount: number, currency: string): string; // Minor units, e.g. 150000 KES cents as "Ksh 1,500.00"
+  date(value: string | number | Date): string; // In the chosen date format
+  dateTime(value: string | number | Date): string; // Date in the chosen format plus the time
+  shortDate(value: string | number | Date): string; // Compact date for chart axes, e.g. "19 Oct 26"
+  month(month: string, style: "short" | "long"): string; // "2026-10" as "Oct" or "October 2026"
+  percent(ratio: number): string; // 0.25 as "25%"
+}
+
+// Day keys ("YYYY-MM-DD") are calendar days, so they are read as local midnight rather than UTC
+const toDate = (value: string | number | Date) =>
+  typeof value === "string" ? (value.length === 10 ? parseISO(value) : new Date(value)) : new Date(value);
+
+export function createFormatter({ locale, dateFormat }: Pick<Settings, "locale" | "dateFormat">): Formatter {
+  const tag = locale || undefined; // Empty means the browser's locale
+  // "medium" and "long" leave the order and month names to the locale; the rest are fixed patterns
+  const localeStyle = dateFormat === "medium" || dateFormat === "long" ? dateFormat : undefined;
+  const dateStyle = localeStyle && new Intl.DateTimeFormat(tag, { dateStyle: localeStyle });
+  const dateTimeStyle = localeStyle && new Intl.DateTimeFormat(tag, { dateStyle: localeStyle, timeStyle: "short" });
+  const time = new Intl.DateTimeFormat(tag, { timeStyle: "short" });
+  const short = new Intl.DateTimeFormat(tag, { day: "numeric", month: "short", year: "2-digit" });
+  const months = {
+    short: new Intl.DateTimeFormat(tag, { month: "short" }),
+    long: new Intl.DateTimeFormat(tag, { month: "long", year: "numeric" }),
+  };
+  const percent = new Intl.NumberFormat(tag, { style: "percent", maximumFractionDigits: 0 });
+
+  const formatDate = (value: string | number | Date) => {
+    const date = toDate(value);
+    return dateStyle ? dateStyle.format(date) : format(date, dateFormat);
+  };
+
+  return {
+    money: (amount, currency) => formatMoney(amount, currency, tag),
+    date: formatDate,
+    dateTime: (value) => {
+      const date = toDate(value);
+      return dateTimeStyle ? dateTimeStyle.format(date) : `${formatDate(date)} ${time.format(date)}`;
+    },
+    shortDate: (value) => short.format(toDate(value)),
+    month: (month, style) => months[style].format(parseISO(`${month}-01`)),
+    percent: (ratio) => percent.format(ratio),
+  };
+}
@@ -0,0 +1,107 @@
+import { GOAL_STATUSES, type GoalStatusLabel } from "@/lib/forecast";
+import { sameCategory, type Category } from "@/types/category";
+import { Goal, getRemaining } from "@/types/goal";
+
+// Fields the goal list can be sorted by
+export const GOAL_SORT_KEYS = ["deadline", "progress", "remaining", "target"] as const;
+
+export type GoalSortKey = (typeof GOAL_SORT_KEYS)[number];
+
+export type SortDirection = "asc" | "desc";
+
+// Search, filters and sort applied to the goals grid
+// Empty strings mean "no filter" / insertion order; the query string only carries fields that are set
+export interface GoalQuery {
+  search: string; // Case-insensitive match on the goal name
+  category: string; // Category name, compared case-insensitively
+  status: GoalStatusLabel | "";
+  sort: GoalSortKey | "";
+  dir: SortDirection;
+  deadlineFrom: string; // YYYY-MM-DD; only goals due on or after this day
+  deadlineTo: string; // YYYY-MM-DD; only goals due on or before this day
+}
+
+export const EMPTY_GOAL_QUERY: GoalQuery = { search: "", category: "", status: "", sort: "", dir: "asc", deadlineFrom: "", deadlineTo: "" };
+
+const isStatus = (value: string | null): value is GoalStatusLabel => GOAL_STATUSES.some((s) => s === value);
+const isSortKey = (value: string | null): value is GoalSortKey => GOAL_SORT_KEYS.some((k) => k === value);
+const isDay = (value: string | null): value is string => /^\d{4}-\d{2}-\d{2}$/.test(value ?? "");
+
+// Read a query from the URL; unknown values are ignored so hand-edited links still open
+export function parseGoalQuery(params: URLSearchParams): GoalQuery {
+  const status = params.get("status");
+  const sort = params.get("sort");
+  const from = params.get("from");
+  const to = params.get("to");
+  return {
+    search: params.get("q") ?? "",
+    category: params.get("category") ?? "",
+    status: isStatus(status) ? status : "",
+    sort: isSortKey(sort) ? sort : "",
+    dir: params.get("dir") === "desc" ? "desc" : "asc",
+    deadlineFrom: isDay(from) ? from : "",
+    deadlineTo: isDay(to) ? to : "",
+  };
+}
+
+// Write a query to URL parameters, leaving out everything at its default
+export function toGoalSearchParams(query: GoalQuery) {
+  const params = new URLSearchParams();
+  if (query.search) params.set("q", query.search);
+  if (query.category) params.set("category", query.category);
+  if (query.status) params.set("status", query.status);
+  if (query.deadlineFrom) params.set("from", query.deadlineFrom);
+  if (query.deadlineTo) params.set("to", query.deadlineTo);
+  if (query.sort) {
+    params.set("sort", query.sort);
+    if (query.dir === "desc") params.set("dir", "desc");
+  }
+  return params;
+}
+
+export const isEmptyGoalQuery = (query: GoalQuery) => toGoalSearchParams(query).toString() === "";
+
+const sortValue = (goal: Goal, key: GoalSortKey) => {
+  switch (key) {
+    case "deadline":
+      return new Date(goal.deadline + "T00:00:00").getTime();
+    case "progress":
+      return goal.targetAmount > 0 ? goal.savedAmount / goal.targetAmount : 0;
+    case "remaining":
+      return getRemaining(goal);
+    case "target":
+      return goal.targetAmount;
+  }
+};
+
+// Narrow down and order goals; `statusOf` supplies each goal's status label (it depends on the ledger)
+// Goals that compare equal keep their original order
+export function applyGoalQuery(goals: Goal[], query: GoalQuery, statusOf: (goal: Goal) => GoalStatusLabel) {
+  const search = query.search.trim().toLowerCase();
+  const result = goals.filter(
+    (g) =>
+      (!search || g.name.toLowerCase().includes(search)) &&
+      (!query.category || sameCategory(g.category, query.category)) &&
+      (!query.status || statusOf(g) === query.status) &&
+      (!query.deadlineFrom || g.deadline >= query.deadlineFrom) && // YYYY-MM-DD strings compare like dates
+      (!query.deadlineTo || g.deadline <= query.deadlineTo),
+  );
+
+  const { sort } = query;
+  if (!sort) return result;
+  const direction = query.dir === "desc" ? -1 : 1;
+  return result.sort((a, b) => (sortValue(a, sort) - sortValue(b, sort)) * direction);
+}
+
+// Category names to filter by: every managed category plus any name only found on goals
+export function getCategoryOptions(goals: Goal[], categories: Category[]) {
+  const names = categories.map((c) => c.name);
+  for (const goal of goals) {
+    if (!names.some((name) => sameCategory(name, goal.category))) names.push(goal.category);
+  }
+  return names.sort((a, b) => a.localeCompare(b));
+}
+
+// Whether two queries show the same goals in the same order
+export const isSameGoalQuery = (a: GoalQuery, b: GoalQuery) =>
+  toGoalSearchParams(a).toString() === toGoalSearchParams(b).toString();
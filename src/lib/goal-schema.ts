@@ -0,0 +1,49 @@
+// Validation rules for goals, shared by GoalForm and the API server (server/)
+// Imports stay relative so the server can load this file without the app's path aliases
+
+import * as z from "zod";
+import { DEFAULT_CURRENCY } from "./currency";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+// Money is stored as whole minor units of the goal's currency (see src/lib/currency.ts)
+export const minorUnits = z.number().int("Amounts are whole minor units, e.g. cents");
+
+/**
+ * Fields a user can enter when creating or editing a goal
+ * Validates POST /goals and what GoalForm submits (the form itself works in decimal amounts)
+ */
+export const goalFormSchema = z.object({
+  name: z.string().trim().min(1, "Goal name is required"),
+  targetAmount: minorUnits.positive("Target amount must be positive"),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code").default(DEFAULT_CURRENCY),
+  category: z.string().trim().min(1, "Category is required"),
+  deadline: z.string().min(1, "Deadline is required").pipe(isoDate),
+});
+
+export type GoalFormValues = z.infer<typeof goalFormSchema>;
+
+// Longest notes text a goal can hold
+export const GOAL_NOTES_MAX_LENGTH = 2000;
+
+export const contributionPlanSchema = z.object({
+  amount: minorUnits.positive("Contribution amount must be positive"),
+  frequency: z.enum(["weekly", "biweekly", "monthly"]),
+  startDate: isoDate,
+  endDate: isoDate.optional(),
+  scheduledThrough: isoDate.optional(),
+});
+
+/**
+ * Every stored field of a goal; PATCH /goals/:id accepts any subset of it
+ */
+export const goalSchema = goalFormSchema.extend({
+  savedAmount: minorUnits.min(0, "Saved amount can't be negative"),
+  createdAt: isoDate,
+  plan: contributionPlanSchema.nullable().optional(),
+  notes: z.string().max(GOAL_NOTES_MAX_LENGTH, `Notes can be at most ${GOAL_NOTES_MAX_LENGTH} characters`).optional(),
+  schemaVersion: z.number().int().optional(),
+  version: z.number().int().optional(),
+});
+
+export const goalPatchSchema = goalSchema.partial();
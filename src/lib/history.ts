@@ -0,0 +1,83 @@
+import { format, parseISO } from "date-fns";
+import type { Goal } from "@/types/goal";
+import { Transaction, getLedgerTotal, getSignedAmount, isPending } from "@/types/transaction";
+
+// A goal's saved amount at the end of one day
+export interface BalancePoint {
+  date: string; // YYYY-MM-DD
+  saved: number; // minor units
+}
+
+// Saved amount over time, rebuilt from the goal's posted ledger entries
+// Starts at the goal's creation (or its earliest entry), has one point per day with activity and ends today.
+// Savings the ledger doesn't explain (recorded before the ledger existed) are the opening balance.
+export function getBalanceHistory(goal: Goal, transactions: Transaction[], today = new Date()): BalancePoint[] {
+  const posted = transactions
+    .filter((t) => t.goalId === goal.id && !isPending(t))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  let saved = goal.savedAmount - getLedgerTotal(posted);
+  const start = posted.length > 0 && posted[0].date < goal.createdAt ? posted[0].date : goal.createdAt;
+  const points: BalancePoint[] = [{ date: start, saved }];
+
+  for (const t of posted) {
+    saved += getSignedAmount(t);
+    const last = points[points.length - 1];
+    // Several entries on one day collapse into that day's closing balance
+    if (last.date === t.date) last.saved = saved;
+    else points.push({ date: t.date, saved });
+  }
+
+  const todayKey = format(today, "yyyy-MM-dd");
+  if (points[points.length - 1].date < todayKey) points.push({ date: todayKey, saved });
+  return points;
+}
+
+// One point of a burn-up chart: the amount saved so far next to the pace that would reach the target on time
+export interface BurnUpPoint {
+  date: string; // YYYY-MM-DD
+  saved?: number; // missing for dates after today
+  ideal: number;
+}
+
+const dayTime = (d: string) => parseISO(d).getTime();
+
+// Amount an even pace from nothing at createdAt to targetAmount at the deadline would have saved by `date`
+export function getIdealAmount(goal: Goal, date: string) {
+  if (date <= goal.createdAt) return 0;
+  if (date >= goal.deadline) return goal.targetAmount;
+  const elapsed = dayTime(date) - dayTime(goal.createdAt);
+  const total = dayTime(goal.deadline) - dayTime(goal.createdAt);
+  return Math.round((goal.targetAmount * elapsed) / total); // Whole minor units
+}
+
+// Closing balance on `date` from a balance history (0 before the history starts)
+function balanceOn(history: BalancePoint[], date: string) {
+  let saved = 0;
+  for (const point of history) {
+    if (point.date > date) break;
+    saved = point.saved;
+  }
+  return saved;
+}
+
+// Burn-up data for one or more goals: saved amounts and ideal paces summed per day,
+// from the earliest start until the latest deadline (or today, if that is later)
+export function getBurnUp(goals: Goal[], transactions: Transaction[], today = new Date()): BurnUpPoint[] {
+  if (goals.length === 0) return [];
+  const todayKey = format(today, "yyyy-MM-dd");
+  const histories = goals.map((goal) => getBalanceHistory(goal, transactions, today));
+
+  // Every day on which any line changes direction: ledger activity, creation dates and deadlines
+  const dates = new Set([todayKey, ...histories.flat().map((p) => p.date)]);
+  goals.forEach((goal) => {
+    dates.add(goal.createdAt);
+    dates.add(goal.deadline);
+  });
+
+  return [...dates].sort().map((date) => ({
+    date,
+    saved: date <= todayKey ? histories.reduce((sum, history) => sum + balanceOn(history, date), 0) : undefined,
+    ideal: goals.reduce((sum, goal) => sum + getIdealAmount(goal, date), 0),
+  }));
+}
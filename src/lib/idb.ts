@@ -0,0 +1,36 @@
+// Minimal promise wrapper around IndexedDB used as a key-value store
+// Holds the offline copy of goals and the queue of changes waiting to be sent (src/api/offline.ts)
+
+const DB_NAME = "smart-goal-planner";
+const STORE_NAME = "kv";
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!opening) {
+    opening = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    opening.catch(() => (opening = null)); // Try again next time (e.g. storage was blocked)
+  }
+  return opening;
+}
+
+// Run one request in its own transaction and resolve with its result
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const idbGet = <T>(key: string) => run<T | undefined>("readonly", (store) => store.get(key));
+
+export const idbSet = async (key: string, value: unknown) => {
+  await run("readwrite", (store) => store.put(value, key));
+};
@@ -0,0 +1,153 @@
+// Versioned schema migrations for stored data
+// The same migrations run in the browser on load (src/api/migrations.ts) and from
+// `npm run migrate` against db.json (scripts/migrate-db.ts), so imports stay relative
+// and nothing here touches the network.
+
+import { getGoalIssues, type Goal } from "../types/goal";
+import { sameCategory, type Category } from "../types/category";
+import type { Transaction } from "../types/transaction";
+import { DEFAULT_CURRENCY, getGoalCurrency, toMinorUnits } from "./currency";
+
+// Everything a migration may read or rewrite
+export interface Dataset {
+  goals: Goal[];
+  categories: Category[];
+  transactions: Transaction[];
+}
+
+// Bookkeeping stored in the /meta resource
+export interface SchemaMeta {
+  schemaVersion: number;
+  migrations: { id: string; version: number; ranAt: string }[];
+}
+
+export interface Migration {
+  version: number; // schema version after this migration has run
+  id: string;
+  description: string;
+  up: (data: Dataset) => Dataset;
+}
+
+export const EMPTY_META: SchemaMeta = { schemaVersion: 0, migrations: [] };
+
+const titleCase = (s: string) =>
+  s.trim().replace(/\s+/g, " ").replace(/\b\p{L}/gu, (c) => c.toUpperCase());
+
+// Ordered list of migrations; append new ones with the next version number
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    id: "001-stamp-schema-version",
+    description: "Record the schema version on every goal",
+    up: (data) => data, // the runner stamps schemaVersion after each migration
+  },
+  {
+    version: 2,
+    id: "002-normalize-categories",
+    description: "Merge categories that differ only in casing and register categories used by goals",
+    up: ({ goals, categories, ...rest }) => {
+      // Keep the first category of each case-insensitive name
+      const kept: Category[] = [];
+      for (const c of categories) {
+        if (!kept.some((k) => sameCategory(k.name, c.name))) kept.push({ ...c, name: c.name.trim() });
+      }
+
+      // Goals point at the canonical spelling; unknown names become new categories
+      let nextId = Date.now();
+      const normalized = goals.map((g) => {
+        let category = kept.find((k) => sameCategory(k.name, g.category));
+        if (!category) {
+          category = { id: String(nextId++), name: titleCase(g.category), color: "#64748b", icon: "tag" };
+          kept.push(category);
+        }
+        return category.name === g.category ? g : { ...g, category: category.name };
+      });
+
+      return { ...rest, goals: normalized, categories: kept };
+    },
+  },
+  {
+    version: 3,
+    id: "003-goal-revisions",
+    description: "Start every goal's revision counter so stale writes can be detected",
+    up: (data) => ({ ...data, goals: data.goals.map((g) => ({ ...g, version: g.version ?? 1 })) }),
+  },
+  {
+    version: 4,
+    id: "004-goal-currency",
+    description: "Record the currency of every goal; existing goals were in US dollars",
+    up: (data) => ({ ...data, goals: data.goals.map((g) => ({ ...g, currency: g.currency ?? DEFAULT_CURRENCY })) }),
+  },
+  {
+    version: 5,
+    id: "005-minor-units",
+    description: "Store goal, plan and ledger amounts as integer minor units (cents) of the goal's currency",
+    up: ({ goals, categories, transactions }) => {
+      const currencyOf = new Map(goals.map((g) => [g.id, getGoalCurrency(g)]));
+      return {
+        categories,
+        goals: goals.map((g) => {
+          const currency = getGoalCurrency(g);
+          return {
+            ...g,
+            targetAmount: toMinorUnits(g.targetAmount, currency),
+            savedAmount: toMinorUnits(g.savedAmount, currency),
+            ...(g.plan ? { plan: { ...g.plan, amount: toMinorUnits(g.plan.amount, currency) } } : {}),
+          };
+        }),
+        // Entries of a goal that no longer exists were recorded in the old default currency
+        transactions: transactions.map((t) => ({ ...t, amount: toMinorUnits(t.amount, currencyOf.get(t.goalId) ?? DEFAULT_CURRENCY) })),
+      };
+    },
+  },
+  {
+    version: 6,
+    id: "006-plan-entry-source",
+    description: "Mark entries written by contribution plans instead of storing an English note on them",
+    // Only plan entries ever had a status; the note is shown in the reader's language now
+    up: (data) => ({
+      ...data,
+      transactions: data.transactions.map((t) =>
+        t.status ? { ...t, source: "plan" as const, note: t.note === "Scheduled contribution" ? "" : t.note } : t,
+      ),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Goals whose values can't be right; they are reported, never corrected automatically
+export const findImpossibleValues = (goals: Goal[]) =>
+  goals
+    .map((g) => ({ goalId: g.id, name: g.name, issues: getGoalIssues(g) }))
+    .filter((f) => f.issues.length > 0);
+
+export const getPendingMigrations = (meta: SchemaMeta) =>
+  MIGRATIONS.filter((m) => m.version > meta.schemaVersion);
+
+// Apply every pending migration in order
+// Returns the upgraded data, updated bookkeeping and goals whose values look impossible
+export function runMigrations(data: Dataset, meta: SchemaMeta = EMPTY_META, now = new Date()) {
+  const pending = getPendingMigrations(meta);
+  let current = data;
+  const ran: SchemaMeta["migrations"] = [];
+
+  for (const migration of pending) {
+    current = migration.up(current);
+    current = {
+      ...current,
+      goals: current.goals.map((g) => ({ ...g, schemaVersion: migration.version })),
+    };
+    ran.push({ id: migration.id, version: migration.version, ranAt: now.toISOString() });
+  }
+
+  return {
+    data: current,
+    meta: {
+      schemaVersion: pending.length > 0 ? pending[pending.length - 1].version : meta.schemaVersion,
+      migrations: [...meta.migrations, ...ran],
+    },
+    applied: ran,
+    flagged: findImpossibleValues(current.goals),
+  };
+}
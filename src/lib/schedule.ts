@@ -0,0 +1,48 @@
+import { addMonths, addWeeks, format, parseISO } from "date-fns";
+import type { ContributionFrequency, ContributionPlan } from "@/types/goal";
+
+// Offered in the plan dialog; each is labelled by its `frequency.<value>` message
+export const FREQUENCIES: ContributionFrequency[] = ["weekly", "biweekly", "monthly"];
+
+const toDay = (d: Date) => format(d, "yyyy-MM-dd");
+
+export const today = () => toDay(new Date());
+
+// n-th occurrence counted from the start date, so monthly plans don't drift
+// when a short month is crossed (Jan 31 -> Feb 29 -> Mar 31)
+function occurrence(plan: ContributionPlan, n: number) {
+  const start = parseISO(plan.startDate);
+  switch (plan.frequency) {
+    case "weekly":
+      return toDay(addWeeks(start, n));
+    case "biweekly":
+      return toDay(addWeeks(start, 2 * n));
+    case "monthly":
+      return toDay(addMonths(start, n));
+  }
+}
+
+// Occurrences in (after, until], never past the plan's end date
+export function getOccurrences(plan: ContributionPlan, after: string | undefined, until: string) {
+  const dates: string[] = [];
+  const last = plan.endDate && plan.endDate < until ? plan.endDate : until;
+  for (let n = 0; ; n++) {
+    const date = occurrence(plan, n);
+    if (date > last) break;
+    if (!after || date > after) dates.push(date);
+  }
+  return dates;
+}
+
+// Occurrences up to and including `on` that have not been scheduled yet
+export const getDueOccurrences = (plan: ContributionPlan, on = today()) =>
+  getOccurrences(plan, plan.scheduledThrough, on);
+
+// First occurrence after `on`, or undefined once the plan has ended
+export function getNextContribution(plan: ContributionPlan, on = today()) {
+  for (let n = 0; ; n++) {
+    const date = occurrence(plan, n);
+    if (plan.endDate && date > plan.endDate) return undefined;
+    if (date > on) return date;
+  }
+}
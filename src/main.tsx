@@ -8,3 +8,11 @@ import './index.css' // Global styles and Tailwind CSS imports
 // Create a root element for React 18's concurrent features
 // The non-null assertion (!) ensures TypeScript knows the element exists
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Register the service worker (public/sw.js) that caches the app shell and the goal list
+// Production only: in development it would keep serving stale modules
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((e) => console.error("Service worker registration failed:", e));
+  });
+}
@@ -0,0 +1,156 @@
+// Analytics page for the Smart Goal Planner
+// Breaks savings down by category (share of the total, saved vs. target, completion and overdue goals)
+// and shows how much is saved per month
+
+import { useMemo } from "react"; // Memoizes the breakdowns
+import { Helmet } from "react-helmet-async"; // SEO and meta tag management for the page
+import { Link } from "react-router-dom"; // Client-side navigation back to the dashboard
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Section containers
+import { Progress } from "@/components/ui/progress"; // Completion rate bars
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"; // Per-category table
+import { CategoryBadge } from "@/components/categories/CategoryBadge"; // Icon + color + name display
+import { CategoryDonutChart, CategoryProgressChart } from "@/components/analytics/CategoryCharts"; // Category charts
+import { VelocityChart } from "@/components/analytics/VelocityChart"; // Monthly deposits and withdrawals
+import { useGoals } from "@/api/goals"; // Goals to break down
+import { useCategories } from "@/api/categories"; // Category names, colors and icons
+import { useTransactions } from "@/api/transactions"; // Whole ledger for the monthly velocity
+import { useExchangeRates } from "@/hooks/use-exchange-rates"; // Base currency and rates for the totals
+import { useFormatter } from "@/hooks/use-formatter"; // Amounts and percentages in the user's locale
+import { useTranslation } from "@/hooks/use-translation"; // Page text in the chosen language
+import { getCategoryBreakdown, getMonthlyVelocity } from "@/lib/analytics"; // Aggregations
+import { goalsInBaseCurrency, ledgerInBaseCurrency } from "@/lib/currency"; // Totals in the base currency
+
+// Number of calendar months shown in the velocity chart
+const VELOCITY_MONTHS = 12;
+
+const Analytics = () => {
+  // Fetch goals, categories and the ledger
+  const { data: goals = [], isLoading, error } = useGoals();
+  const { data: categories = [] } = useCategories();
+  const { data: ledger = [] } = useTransactions();
+  const { table, baseCurrency } = useExchangeRates();
+  const fmt = useFormatter();
+  const { t, errorMessage } = useTranslation();
+
+  // Everything is summed in the base currency; goals in a currency without a rate are left out
+  const converted = useMemo(() => goalsInBaseCurrency(goals, table), [goals, table]);
+  const breakdown = useMemo(() => getCategoryBreakdown(converted.goals, categories), [converted, categories]);
+  const velocity = useMemo(() => getMonthlyVelocity(ledgerInBaseCurrency(ledger, goals, table), VELOCITY_MONTHS), [ledger, goals, table]);
+  const averageNet = velocity.reduce((sum, m) => sum + m.net, 0) / VELOCITY_MONTHS; // Average net saved per month
+  const overdue = breakdown.reduce((sum, c) => sum + c.overdue, 0);
+
+  return (
+    <>
+      {/* SEO and meta tags for the page */}
+      <Helmet>
+        <title>{t("analytics.metaTitle")}</title>
+        <meta name="description" content={t("analytics.metaDescription")} />
+        <link rel="canonical" href="/analytics" />
+      </Helmet>
+
+      {/* Page header */}
+      <header className="container py-10">
+        <Link to="/" className="text-sm text-muted-foreground hover:text-foreground">{t("common.backToGoals")}</Link>
+        <h1 className="mt-2 text-3xl font-bold tracking-tight">{t("analytics.title")}</h1>
+        <p className="mt-3 text-muted-foreground max-w-2xl">
+          {t("analytics.subtitle", { currency: baseCurrency })}
+          {converted.missing.length > 0 && ` ${t("analytics.missingRates", { currencies: converted.missing.join(", ") })}`}
+        </p>
+      </header>
+
+      <main className="container pb-16 space-y-6">
+        {isLoading && <div className="text-muted-foreground">{t("index.loading")}</div>}
+        {error && <div className="text-destructive">{errorMessage(error, t("index.loadFailed"))}</div>}
+        {!isLoading && !error && goals.length === 0 && (
+          <div className="text-sm text-muted-foreground">{t("analytics.empty")}</div>
+        )}
+
+        {!isLoading && !error && goals.length > 0 && (
+          <>
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Share of the total saved per category */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t("analytics.byCategoryTitle")}</CardTitle>
+                  <CardDescription>{t("analytics.byCategoryDescription")}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {breakdown.some((c) => c.saved > 0)
+                    ? <CategoryDonutChart data={breakdown} currency={baseCurrency} className="mx-auto aspect-square max-h-80" />
+                    : <div className="text-sm text-muted-foreground">{t("analytics.nothingSaved")}</div>}
+                </CardContent>
+              </Card>
+
+              {/* Saved vs. still needed per category */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t("analytics.vsTargetTitle")}</CardTitle>
+                  <CardDescription>{t("analytics.vsTargetDescription")}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CategoryProgressChart data={breakdown} currency={baseCurrency} className="aspect-auto h-80 w-full" />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Completion and overdue goals per category */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t("analytics.categoriesTitle")}</CardTitle>
+                <CardDescription>
+                  {overdue === 0 ? t("analytics.noneOverdue") : t("analytics.overdue", { count: overdue })}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("analytics.colCategory")}</TableHead>
+                      <TableHead className="text-right">{t("analytics.colGoals")}</TableHead>
+                      <TableHead className="text-right">{t("analytics.colSaved")}</TableHead>
+                      <TableHead className="text-right">{t("analytics.colTarget")}</TableHead>
+                      <TableHead className="w-40">{t("analytics.colCompleted")}</TableHead>
+                      <TableHead className="text-right">{t("analytics.colOverdue")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdown.map((c) => (
+                      <TableRow key={c.name}>
+                        <TableCell><CategoryBadge name={c.name} categories={categories} className="font-medium" /></TableCell>
+                        <TableCell className="text-right">{c.goals}</TableCell>
+                        <TableCell className="text-right">{fmt.money(c.saved, baseCurrency)}</TableCell>
+                        <TableCell className="text-right">{fmt.money(c.target, baseCurrency)}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Progress value={c.completionRate * 100} className="h-2" aria-label={t("analytics.completionRate", { name: c.name })} />
+                            <span className="w-10 text-right text-xs text-muted-foreground">{fmt.percent(c.completionRate)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className={c.overdue > 0 ? "text-right font-medium text-destructive" : "text-right"}>{c.overdue}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Money in and out per month */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t("analytics.velocityTitle")}</CardTitle>
+                <CardDescription>
+                  {t("analytics.velocityDescription", { amount: fmt.money(averageNet, baseCurrency), count: VELOCITY_MONTHS })}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <VelocityChart data={velocity} currency={baseCurrency} className="aspect-auto h-64 w-full" />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,162 @@
+// Category management page for the Smart Goal Planner
+// Lists every category with the number of goals using it and lets users
+// create, rename, recolor, merge and delete categories
+
+import { useMemo, useState } from "react"; // React hooks for local state and derived values
+import { Helmet } from "react-helmet-async"; // SEO and meta tag management for the page
+import { Link } from "react-router-dom"; // Client-side navigation back to the dashboard
+import { toast } from "sonner"; // Toast notification system for user feedback
+import { Button } from "@/components/ui/button"; // Reusable button component with consistent styling
+import { Card, CardContent } from "@/components/ui/card"; // Card container for each category row
+import { CategoryBadge } from "@/components/categories/CategoryBadge"; // Icon + color + name display
+import { CategoryDialog } from "@/components/categories/CategoryDialog"; // Create/edit form
+import { MoveCategoryDialog } from "@/components/categories/MoveCategoryDialog"; // Merge/delete confirmation
+import { useCategories, useCreateCategory, useDeleteCategory, useMergeCategories, useUpdateCategory } from "@/api/categories"; // API hooks for categories
+import { useGoals } from "@/api/goals"; // Goals are needed for usage counts
+import { useTranslation } from "@/hooks/use-translation"; // Page text in the chosen language
+import { sameCategory, type Category, type CategoryInput } from "@/types/category"; // Category types and helpers
+
+const Categories = () => {
+  // Fetch categories and goals
+  const { data: categories = [], isLoading, error } = useCategories();
+  const { data: goals = [] } = useGoals();
+  const { t, errorMessage } = useTranslation();
+
+  // Mutation hooks
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const mergeCategories = useMergeCategories();
+  const deleteCategory = useDeleteCategory();
+
+  // Dialog state
+  const [createOpen, setCreateOpen] = useState(false); // New category dialog
+  const [editing, setEditing] = useState<Category | null>(null); // Category being edited
+  const [moving, setMoving] = useState<{ mode: "merge" | "delete"; category: Category } | null>(null); // Merge/delete target
+
+  // Number of goals per category (case-insensitive, matching how goals are reassigned)
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const c of categories) {
+      counts.set(c.id, goals.filter((g) => sameCategory(g.category, c.name)).length);
+    }
+    return counts;
+  }, [categories, goals]);
+
+  // Handler for creating a category
+  const handleCreate = async (values: CategoryInput) => {
+    try {
+      await createCategory.mutateAsync(values);
+      toast.success(t("categories.created"));
+    } catch (e) {
+      toast.error(errorMessage(e, t("categories.createFailed")));
+      throw e; // Keep the dialog open
+    }
+  };
+
+  // Handler for renaming/recoloring a category
+  const handleUpdate = async (category: Category, values: CategoryInput) => {
+    try {
+      await updateCategory.mutateAsync({ category, data: values });
+      toast.success(t("categories.updated"));
+    } catch (e) {
+      toast.error(errorMessage(e, t("categories.updateFailed")));
+      throw e;
+    }
+  };
+
+  // Handler for merging or deleting a category
+  const handleMove = async (target?: Category) => {
+    if (!moving) return;
+    const { mode, category } = moving;
+    try {
+      if (mode === "merge") {
+        await mergeCategories.mutateAsync({ source: category, target });
+        toast.success(t("categories.merged", { name: target?.name ?? "" }));
+      } else {
+        await deleteCategory.mutateAsync({ category, reassignTo: target });
+        toast.success(t("categories.deleted"));
+      }
+    } catch (e) {
+      toast.error(errorMessage(e, t("categories.updateFailed")));
+      throw e;
+    }
+  };
+
+  return (
+    <>
+      {/* SEO and meta tags for the page */}
+      <Helmet>
+        <title>{t("categories.metaTitle")}</title>
+        <meta name="description" content={t("categories.metaDescription")} />
+        <link rel="canonical" href="/categories" />
+      </Helmet>
+
+      {/* Page header with title and action button */}
+      <header className="container py-10">
+        <Link to="/" className="text-sm text-muted-foreground hover:text-foreground">{t("common.backToGoals")}</Link>
+        <div className="mt-2 flex items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold tracking-tight">{t("categories.title")}</h1>
+          <Button onClick={() => setCreateOpen(true)} className="bg-brand text-brand-foreground hover:opacity-90">
+            {t("categories.add")}
+          </Button>
+        </div>
+        <p className="mt-3 text-muted-foreground max-w-2xl">
+          {t("categories.subtitle")}
+        </p>
+      </header>
+
+      <main className="container pb-16">
+        {isLoading && <div className="text-muted-foreground">{t("categories.loading")}</div>}
+        {error && <div className="text-destructive">{t("categories.loadFailed")}</div>}
+
+        {!isLoading && !error && (
+          <div className="grid gap-3">
+            {categories.map((c) => (
+              <Card key={c.id}>
+                <CardContent className="flex flex-wrap items-center justify-between gap-3 p-4">
+                  <div>
+                    <CategoryBadge name={c.name} categories={categories} className="font-medium" />
+                    <div className="text-sm text-muted-foreground">
+                      {t("categories.goalCount", { count: usage.get(c.id) ?? 0 })}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => setEditing(c)}>{t("common.edit")}</Button>
+                    <Button size="sm" variant="outline" onClick={() => setMoving({ mode: "merge", category: c })} disabled={categories.length < 2}>
+                      {t("categories.merge")}
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => setMoving({ mode: "delete", category: c })}>{t("common.delete")}</Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            {categories.length === 0 && (
+              <div className="text-sm text-muted-foreground">{t("categories.empty")}</div>
+            )}
+          </div>
+        )}
+      </main>
+
+      {/* Create and edit dialogs */}
+      <CategoryDialog open={createOpen} onOpenChange={setCreateOpen} onSubmit={handleCreate} />
+      <CategoryDialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        initial={editing ?? undefined}
+        onSubmit={(values) => handleUpdate(editing!, values)}
+      />
+
+      {/* Merge/delete confirmation */}
+      <MoveCategoryDialog
+        mode={moving?.mode ?? "delete"}
+        category={moving?.category ?? null}
+        categories={categories}
+        goalCount={moving ? usage.get(moving.category.id) ?? 0 : 0}
+        onOpenChange={(open) => !open && setMoving(null)}
+        onConfirm={handleMove}
+      />
+    </>
+  );
+};
+
+export default Categories;
@@ -0,0 +1,270 @@
+// Detail page for a single savings goal, routed at /goals/:id
+// Shows everything about the goal in one place: progress, forecast, balance over time,
+// the full ledger and notes, with the same actions as the goal card
+
+import { useMemo } from "react"; // Memoizes forecast calculations
+import { Helmet } from "react-helmet-async"; // SEO and meta tag management for the page
+import { Link, useNavigate, useParams } from "react-router-dom"; // Route parameters and navigation
+import { Button } from "@/components/ui/button"; // Reusable button component with consistent styling
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"; // Section containers
+import { Progress } from "@/components/ui/progress"; // Progress bar
+import { CategoryBadge } from "@/components/categories/CategoryBadge"; // Icon + color + name display
+import { GoalActions } from "@/components/goals/GoalActions"; // Deposit, edit, delete, ... buttons and dialogs
+import { GoalStatusBadge } from "@/components/goals/GoalStatusBadge"; // Color coded status
+import { BurnUpChart } from "@/components/goals/BurnUpChart"; // Saved amount over time against the ideal pace
+import { GoalNotes } from "@/components/goals/GoalNotes"; // Editable notes
+import { TransactionList } from "@/components/goals/TransactionList"; // The goal's ledger
+import { SyncStatus } from "@/components/sync/SyncStatus"; // Offline indicator
+import { Money } from "@/components/currency/Money"; // Amount with its base currency equivalent
+import { useGoals } from "@/api/goals"; // API hook for loading goals
+import { useTransactions } from "@/api/transactions"; // The goal's ledger
+import { useCategories } from "@/api/categories"; // Category colors and icons
+import { useGoalActions } from "@/hooks/use-goal-actions"; // Goal mutations with toast feedback
+import { useFormatter } from "@/hooks/use-formatter"; // Dates and amounts in the user's format
+import { useTranslation } from "@/hooks/use-translation"; // Page text in the chosen language
+import { daysLeft, forecastCompletion, getStatus } from "@/lib/forecast"; // Pace, projection and status
+import { getNextContribution } from "@/lib/schedule"; // Contribution plan helpers
+import { getBurnUp } from "@/lib/history"; // Burn-up chart data
+import { getGoalCurrency } from "@/lib/currency"; // Amounts in the goal's own currency
+import { Goal, IMPLAUSIBLE_OVERSHOOT, getGoalIssueCodes, getProgress, getRemaining, getRequiredContribution } from "@/types/goal"; // Goal type and derived values
+
+// Average number of days in a month, used to turn the daily pace into a monthly one
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const GoalDetail = () => {
+  const { id = "" } = useParams(); // Goal ID from the URL
+  const { data: goals = [], isLoading, error } = useGoals();
+  const goal = goals.find((g) => g.id === id);
+  const { t, errorMessage } = useTranslation();
+
+  if (isLoading) {
+    return <main className="container py-10 text-muted-foreground">{t("goalDetail.loading")}</main>;
+  }
+  if (error) {
+    return <main className="container py-10 text-destructive">{errorMessage(error, t("goalDetail.loadFailed"))}</main>;
+  }
+  if (!goal) return <GoalNotFound />;
+
+  // Keyed by ID so dialog and notes state never carries over from one goal to another
+  return <GoalDetailContent key={goal.id} goal={goal} />;
+};
+
+// Shown for IDs that don't match any goal, e.g. a deleted goal or a mistyped link
+function GoalNotFound() {
+  const { t } = useTranslation();
+  return (
+    <>
+      <Helmet>
+        <title>{t("goalDetail.notFoundMetaTitle")}</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+      <main className="container flex min-h-[60vh] flex-col items-center justify-center gap-4 text-center">
+        <h1 className="text-3xl font-bold tracking-tight">{t("goalDetail.notFoundTitle")}</h1>
+        <p className="max-w-md text-muted-foreground">{t("goalDetail.notFoundMessage")}</p>
+        <Button asChild className="bg-brand text-brand-foreground hover:opacity-90">
+          <Link to="/">{t("goalDetail.backToGoals")}</Link>
+        </Button>
+      </main>
+    </>
+  );
+}
+
+function GoalDetailContent({ goal }: { goal: Goal }) {
+  const navigate = useNavigate();
+  const { handleUpdate, handleDelete, handleDeposit, handleWithdraw, handleTransfer } = useGoalActions();
+  const { data: ledger = [] } = useTransactions(goal.id); // Same cache as the history list below
+  const { data: categories = [] } = useCategories();
+
+  // Calculate derived values using utility functions
+  const progress = getProgress(goal); // Progress percentage (0-100)
+  const remaining = getRemaining(goal); // Amount still needed to reach target
+  const perWeek = getRequiredContribution(goal, "week"); // Saving needed each week to hit the deadline
+  const perMonth = getRequiredContribution(goal, "month"); // Saving needed each month to hit the deadline
+  const left = daysLeft(goal.deadline); // Negative once the deadline has passed
+  const forecast = useMemo(() => forecastCompletion(goal, ledger), [goal, ledger]); // Projected completion at the current pace
+  const status = useMemo(() => getStatus(goal, forecast), [goal, forecast]);
+  const burnUp = useMemo(() => getBurnUp([goal], ledger), [goal, ledger]); // Saved vs. ideal pace per day
+  const issues = getGoalIssueCodes(goal); // Impossible values flagged for the user to fix
+  const nextContribution = goal.plan ? getNextContribution(goal.plan) : undefined; // Next scheduled deposit date
+  const currency = getGoalCurrency(goal); // Every amount of a goal is in its own currency
+  const fmt = useFormatter();
+  const { t, rich } = useTranslation();
+
+  // Leave the page straight away; the dashboard already hides the goal and brings it back if the delete fails
+  const deleteAndLeave = (id: string) => {
+    navigate("/");
+    void handleDelete(id);
+  };
+
+  return (
+    <>
+      {/* Per-goal title so tabs and history entries can be told apart */}
+      <Helmet>
+        <title>{t("goalDetail.metaTitle", { name: goal.name })}</title>
+        <meta name="description" content={t("goalDetail.metaDescription", { name: goal.name })} />
+        <link rel="canonical" href={`/goals/${goal.id}`} />
+      </Helmet>
+
+      {/* Page header with goal name, status and actions */}
+      <header className="container py-10 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Link to="/" className="text-sm text-muted-foreground hover:text-foreground">{t("common.backToGoals")}</Link>
+          <SyncStatus />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <h1 className="text-3xl font-bold tracking-tight">{goal.name}</h1>
+          <GoalStatusBadge status={status} />
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          <CategoryBadge name={goal.category} categories={categories} />
+          <span>{t("goalDetail.created", { date: fmt.date(goal.createdAt) })}</span>
+        </div>
+        <GoalActions
+          goal={goal}
+          onUpdate={handleUpdate}
+          onDelete={deleteAndLeave}
+          onDeposit={handleDeposit}
+          onWithdraw={handleWithdraw}
+          onTransfer={handleTransfer}
+          showHistory={false}
+        />
+      </header>
+
+      <main className="container pb-16 space-y-6">
+        {/* Data problems are surfaced rather than silently corrected */}
+        {issues.length > 0 && (
+          <div role="alert" className="rounded-md border border-warning/30 px-3 py-2 text-sm text-warning">
+            {issues.map((issue) => t(`goalIssue.${issue}`, { times: IMPLAUSIBLE_OVERSHOOT })).join(". ")}. {t("goalCard.fixIssues")}
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Current position */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg">{t("goalCard.progress")}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {t("goalDetail.savedOfTarget", { saved: fmt.money(goal.savedAmount, currency), target: fmt.money(goal.targetAmount, currency) })}
+                  </span>
+                  <span className="font-medium">{progress}%</span>
+                </div>
+                <Progress value={progress} className="mt-2" />
+              </div>
+              <div className="grid grid-cols-2 gap-4 text-sm sm:grid-cols-3">
+                <div>
+                  <div className="text-muted-foreground">{t("goalCard.saved")}</div>
+                  <Money amount={goal.savedAmount} currency={currency} className="font-medium" />
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t("goalCard.target")}</div>
+                  <Money amount={goal.targetAmount} currency={currency} className="font-medium" />
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t("goalCard.remaining")}</div>
+                  <Money amount={remaining} currency={currency} className="font-medium" />
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t("goalCard.deadline")}</div>
+                  <div className="font-medium">{fmt.date(goal.deadline)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">{t("goalDetail.timeLeft")}</div>
+                  <div className={left < 0 && remaining > 0 ? "font-medium text-destructive" : "font-medium"}>
+                    {left < 0 ? t("goalDetail.daysOverdue", { count: -left }) : t("goalDetail.daysLeft", { count: left })}
+                  </div>
+                </div>
+                {remaining > 0 && (
+                  <div>
+                    <div className="text-muted-foreground">{t("goalCard.needed")}</div>
+                    <div className="font-medium">
+                      {t("common.perMonth", { amount: fmt.money(perMonth, currency) })}
+                      <span className="font-normal text-muted-foreground"> · {t("common.perWeek", { amount: fmt.money(perWeek, currency) })}</span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Projection at the current deposit pace */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{t("goalCard.forecast")}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div
+                className={
+                  forecast.state === "behind" || forecast.state === "no-progress"
+                    ? "text-base font-medium text-warning"
+                    : forecast.state === "complete" ? "text-base font-medium text-success" : "text-base font-medium"
+                }
+              >
+                {t(`forecast.${forecast.state}`, { count: -(forecast.daysFromDeadline ?? 0) })}
+              </div>
+              {forecast.projectedDate && forecast.state !== "complete" && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">{t("goalDetail.projected")}</span>
+                  <span className="font-medium">{fmt.date(forecast.projectedDate)}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">{t("goalDetail.pace")}</span>
+                <span className="font-medium">{t("common.perMonth", { amount: fmt.money(forecast.ratePerDay * DAYS_PER_MONTH, currency) })}</span>
+              </div>
+              {/* Recurring contribution summary */}
+              {goal.plan && (
+                <div className="text-muted-foreground">
+                  {nextContribution
+                    ? rich("goalCard.nextContribution", {
+                        amount: <span className="font-medium text-foreground">{fmt.money(goal.plan.amount, currency)}</span>,
+                        date: fmt.date(nextContribution),
+                        frequency: t(`frequency.${goal.plan.frequency}`).toLowerCase(),
+                      })
+                    : t("goalCard.planEnded")}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Saved amount over time against the pace that meets the deadline */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{t("progressChart.title")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BurnUpChart data={burnUp} target={goal.targetAmount} currency={currency} className="aspect-auto h-64 w-full" />
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Every deposit, withdrawal and transfer */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{t("history.title")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TransactionList goal={goal} className="max-h-96 overflow-y-auto" />
+            </CardContent>
+          </Card>
+
+          {/* Free-form notes */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{t("notes.label")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <GoalNotes goal={goal} onSave={(notes) => handleUpdate(goal.id, { notes, version: goal.version })} />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </>
+  );
+}
+
+export default GoalDetail;
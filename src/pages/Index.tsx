@@ -1,94 +1,58 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 // Main dashboard page component for the Smart Goal Planner
 // This component serves as the primary interface for managing savings goals
 // It handles goal creation, updates, deletion, deposits, and displays overview statistics
 
-import { useState } from "react"; // React hook for managing local component state
+import { useMemo, useState } from "react"; // React hooks for local state and derived values
 import { Helmet } from "react-helmet-async"; // SEO and meta tag management for the page
+import { Link } from "react-router-dom"; // Client-side navigation to other pages
 import { Button } from "@/components/ui/button"; // Reusable button component with consistent styling
 import { GoalForm, GoalFormValues } from "@/components/goals/GoalForm"; // Form component for creating/editing goals
 import { GoalCard } from "@/components/goals/GoalCard"; // Individual goal display card component
 import { OverviewStats } from "@/components/goals/OverviewStats"; // Summary statistics component
-import { useCreateGoal, useGoals, useUpdateGoal, useDeleteGoal, useDeposit } from "@/api/goals"; // API hooks for goal operations
-import type { Goal } from "@/types/goal"; // TypeScript type definitions for Goal objects
-import { toast } from "sonner"; // Toast notification system for user feedback
+import { OverallProgressChart } from "@/components/goals/OverallProgressChart"; // Burn-up chart across all goals
+import { PendingContributions } from "@/components/goals/PendingContributions"; // Scheduled deposits awaiting confirmation
+import { GoalToolbar } from "@/components/goals/GoalToolbar"; // Search, filter and sort controls
+import { SavedViewTabs } from "@/components/views/SavedViewTabs"; // Saved combinations of the toolbar settings
+import { SyncStatus } from "@/components/sync/SyncStatus"; // Offline indicator
+import { ThemeSwitcher } from "@/components/theme/ThemeSwitcher"; // Light/dark/system theme menu
+import { useGoals } from "@/api/goals"; // API hook for loading goals
+import { useTransactions } from "@/api/transactions"; // Ledger used to work out each goal's status
+import { useCategories } from "@/api/categories"; // Categories offered in the filter
+import { useMaterializeContributions } from "@/api/contributions"; // Turns due plan occurrences into pending deposits
+import { useGoalActions } from "@/hooks/use-goal-actions"; // Goal mutations with toast feedback
+import { useGoalQuery } from "@/hooks/use-goal-query"; // Search, filters and sort kept in the URL
+import { useTranslation } from "@/hooks/use-translation"; // Interface text in the chosen language
+import { forecastCompletion, getStatus } from "@/lib/forecast"; // Status labels for the status filter
+import { EMPTY_GOAL_QUERY, applyGoalQuery, getCategoryOptions } from "@/lib/goal-query"; // Filtering and sorting
 
 const Index = () => {
   // Fetch all goals from the API with loading and error states
   const { data: goals = [], isLoading, error } = useGoals();
+  const { t, errorMessage } = useTranslation();
+
+  // Create pending deposits for any recurring contributions that came due since the last visit
+  useMaterializeContributions(isLoading || error ? undefined : goals);
   
-  // Mutation hooks for CRUD operations on goals
-  const createGoal = useCreateGoal(); // Hook for creating new goals
-  const updateGoal = useUpdateGoal(); // Hook for updating existing goals
-  const deleteGoal = useDeleteGoal(); // Hook for deleting goals
-  const deposit = useDeposit(); // Hook for making deposits to goals
+  // Goal actions with their success and error toasts (shared with the goal detail page)
+  const { handleCreate: createGoal, handleUpdate, handleDelete, handleDeposit, handleWithdraw, handleTransfer } = useGoalActions();
   
+  // Search, filters and sort from the URL, applied to the goals grid
+  const [query, setQuery] = useGoalQuery();
+  const { data: ledger = [] } = useTransactions(); // Shared ledger cache, also used by the goal cards
+  const { data: categories = [] } = useCategories();
+  const categoryOptions = useMemo(() => getCategoryOptions(goals, categories), [goals, categories]);
+  const visibleGoals = useMemo(
+    () => applyGoalQuery(goals, query, (g) => getStatus(g, forecastCompletion(g, ledger)).label),
+    [goals, query, ledger],
+  );
+
   // Local state to control the visibility of the goal creation form
   const [createOpen, setCreateOpen] = useState(false);
 
-  // Handler for creating a new goal
-  // Takes form values and creates a new goal via API
+  // Create the goal, then close the creation form (failures keep it open with the entered values)
   const handleCreate = async (values: GoalFormValues) => {
-    try {
-      // Create the goal with the provided values
-      await createGoal.mutateAsync({
-        name: values.name,
-        targetAmount: values.targetAmount,
-        category: values.category,
-        deadline: values.deadline,
-      });
-      // Show success notification
-      toast.success("Goal created");
-      // Close the creation form
-      setCreateOpen(false);
-    } catch (e: any) {
-      // Show error notification with fallback message
-      toast.error(e.message || "Failed to create goal");
-    }
-  };
-
-  // Handler for updating an existing goal
-  // Takes goal ID and partial data to update
-  const handleUpdate = async (id: string, data: Partial<Goal>) => {
-    try {
-      // Update the goal via API
-      await updateGoal.mutateAsync({ id, data });
-      // Show success notification
-      toast.success("Goal updated");
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (e: any) {
-      // Show error notification with fallback message
-      toast.error(e.message || "Failed to update goal");
-    }
-  };
-
-  // Handler for deleting a goal
-  // Takes goal ID and removes it from the system
-  const handleDelete = async (id: string) => {
-    try {
-      // Delete the goal via API
-      await deleteGoal.mutateAsync(id);
-      // Show success notification
-      toast.success("Goal deleted");
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    } catch (e: any) {
-      // Show error notification with fallback message
-      toast.error(e.message || "Failed to delete goal");
-    }
-  };
-
-  // Handler for making a deposit to a specific goal
-  // Takes goal ID and deposit amount
-  const handleDeposit = async (id: string, amount: number) => {
-    try {
-      // Process the deposit via API
-      await deposit.mutateAsync({ id, amount });
-      // Show success notification
-      toast.success("Deposit successful");
-    } catch (e: any) {
-      // Show error notification with fallback message
-      toast.error(e.message || "Deposit failed");
-    }
+    await createGoal(values);
+    setCreateOpen(false);
   };
 
   return (
@@ -96,14 +60,14 @@ const Index = () => {
       {/* SEO and meta tags for the page */}
       <Helmet>
         {/* Page title shown in browser tab */}
-        <title>Smart Goal Planner — Track Your Savings Goals</title>
+        <title>{t("index.metaTitle")}</title>
         {/* Meta description for search engines */}
-        <meta name="description" content="Create, manage, and track multiple savings goals with deposits, progress, and deadlines." />
+        <meta name="description" content={t("index.metaDescription")} />
         {/* Canonical URL for SEO */}
         <link rel="canonical" href="/" />
         {/* Open Graph meta tags for social media sharing */}
-        <meta property="og:title" content="Smart Goal Planner" />
-        <meta property="og:description" content="Manage savings goals, make deposits, and visualize progress." />
+        <meta property="og:title" content={t("app.name")} />
+        <meta property="og:description" content={t("index.ogDescription")} />
         {/* Structured data for search engines */}
         <script type="application/ld+json">
           {JSON.stringify({
@@ -122,16 +86,34 @@ const Index = () => {
         <div className="flex items-center justify-between gap-4">
           {/* Main page title with gradient styling */}
           <h1 className="text-3xl sm:text-4xl font-bold tracking-tight bg-[var(--gradient-hero)] bg-clip-text text-transparent">
-            Smart Goal Planner
+            {t("app.name")}
           </h1>
-          {/* Button to trigger goal creation form */}
-          <Button onClick={() => setCreateOpen(true)} className="bg-brand text-brand-foreground hover:opacity-90">
-            Add Goal
-          </Button>
+          <div className="flex items-center gap-2">
+            {/* Connection and offline queue status */}
+            <SyncStatus />
+            {/* Link to the category breakdown */}
+            <Button variant="outline" asChild>
+              <Link to="/analytics">{t("index.analytics")}</Link>
+            </Button>
+            {/* Link to category management */}
+            <Button variant="outline" asChild>
+              <Link to="/categories">{t("index.categories")}</Link>
+            </Button>
+            {/* Link to the display settings */}
+            <Button variant="outline" asChild>
+              <Link to="/settings">{t("index.settings")}</Link>
+            </Button>
+            {/* Light, dark or system theme */}
+            <ThemeSwitcher />
+            {/* Button to trigger goal creation form */}
+            <Button onClick={() => setCreateOpen(true)} className="bg-brand text-brand-foreground hover:opacity-90">
+              {t("index.addGoal")}
+            </Button>
+          </div>
         </div>
         {/* Subtitle/description of the app */}
         <p className="mt-3 text-muted-foreground max-w-2xl">
-          Manage multiple savings goals, allocate deposits, and track your progress with clear deadlines.
+          {t("index.subtitle")}
         </p>
       </header>
 
@@ -139,11 +121,11 @@ const Index = () => {
       <main className="container pb-16 space-y-8">
         {/* Loading state */}
         {isLoading && (
-          <div className="text-muted-foreground">Loading goals...</div>
+          <div className="text-muted-foreground">{t("index.loading")}</div>
         )}
         {/* Error state */}
         {error && (
-          <div className="text-destructive">Failed to load goals.</div>
+          <div className="text-destructive">{errorMessage(error, t("index.loadFailed"))}</div>
         )}
 
         {/* Main content when data is loaded */}
@@ -151,23 +133,41 @@ const Index = () => {
           <>
             {/* Overview statistics section */}
             <section aria-labelledby="overview-heading" className="space-y-4">
-              <h2 id="overview-heading" className="sr-only">Overview</h2>
+              <h2 id="overview-heading" className="sr-only">{t("index.overviewHeading")}</h2>
               <OverviewStats goals={goals} />
+              {/* Total saved over time against the pace that meets every deadline */}
+              <OverallProgressChart goals={goals} />
+              {/* Scheduled deposits awaiting confirmation */}
+              <PendingContributions goals={goals} />
             </section>
 
             {/* Goals grid section */}
             <section aria-labelledby="goals-heading" className="space-y-4">
-              <h2 id="goals-heading" className="sr-only">Goals</h2>
+              <h2 id="goals-heading" className="sr-only">{t("index.goalsHeading")}</h2>
+              {/* Saved views as tabs, then the search, filter and sort controls */}
+              {goals.length > 0 && (
+                <>
+                  <SavedViewTabs query={query} onSelect={setQuery} />
+                  <GoalToolbar query={query} onChange={setQuery} categories={categoryOptions} />
+                </>
+              )}
               {/* Responsive grid layout for goal cards */}
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                 {/* Render each goal as a card */}
-                {goals.map((g) => (
-                  <GoalCard key={g.id} goal={g} onUpdate={handleUpdate} onDelete={handleDelete} onDeposit={handleDeposit} />
+                {visibleGoals.map((g) => (
+                  <GoalCard key={g.id} goal={g} onUpdate={handleUpdate} onDelete={handleDelete} onDeposit={handleDeposit} onWithdraw={handleWithdraw} onTransfer={handleTransfer} />
                 ))}
               </div>
+              {/* Empty state when the filters hide every goal */}
+              {goals.length > 0 && visibleGoals.length === 0 && (
+                <div className="text-sm text-muted-foreground">
+                  {t("index.noMatches")}{" "}
+                  <Button variant="link" className="h-auto p-0" onClick={() => setQuery(EMPTY_GOAL_QUERY)}>{t("index.clearFilters")}</Button>
+                </div>
+              )}
               {/* Empty state when no goals exist */}
               {goals.length === 0 && (
-                <div className="text-sm text-muted-foreground">No goals yet. Click "Add Goal" to get started.</div>
+                <div className="text-sm text-muted-foreground">{t("index.empty")}</div>
               )}
             </section>
           </>
@@ -1,5 +1,6 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { useTranslation } from "@/hooks/use-translation";
 
 /**
  * NotFound Component
@@ -20,6 +21,7 @@ const NotFound = () => {
   // useLocation hook from react-router-dom provides access to the current location object
   // This allows us to access the pathname that the user attempted to visit
   const location = useLocation();
+  const { t } = useTranslation(); // Message in the chosen language
 
   /**
    * useEffect hook runs when the component mounts or when location.pathname changes
@@ -39,18 +41,18 @@ const NotFound = () => {
 
   return (
     // Main container with full viewport height and centered content
-    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+    <div className="min-h-screen flex items-center justify-center bg-muted">
       {/* Content container with centered text */}
       <div className="text-center">
         {/* Large 404 error code display */}
         <h1 className="text-4xl font-bold mb-4">404</h1>
         
         {/* User-friendly error message */}
-        <p className="text-xl text-gray-600 mb-4">Oops! Page not found</p>
+        <p className="text-xl text-muted-foreground mb-4">{t("notFound.message")}</p>
         
         {/* Navigation link back to home page */}
-        <a href="/" className="text-blue-500 hover:text-blue-700 underline">
-          Return to Home
+        <a href="/" className="text-brand underline hover:opacity-80">
+          {t("notFound.home")}
         </a>
       </div>
     </div>
@@ -0,0 +1,192 @@
+// Display settings page for the Smart Goal Planner
+// Language, locale, base currency, date format and first day of the week; every change is saved to the
+// backend straight away and applies across the app
+
+import { useMemo } from "react"; // Memoizes the previews
+import { Helmet } from "react-helmet-async"; // SEO and meta tag management for the page
+import { Link } from "react-router-dom"; // Client-side navigation back to the dashboard
+import { toast } from "sonner"; // Toast notification system for user feedback
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Section containers
+import { Label } from "@/components/ui/label"; // Accessible labels for the selects
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"; // Setting pickers
+import { useSettings, useUpdateSettings } from "@/api/settings"; // API hooks for the settings document
+import { useGoals } from "@/api/goals"; // Goal currencies are offered as base currencies too
+import { useFormatter } from "@/hooks/use-formatter"; // Preview in the current settings
+import { useTranslation } from "@/hooks/use-translation"; // Page text in the chosen language
+import { createFormatter } from "@/lib/format"; // Example for each date format
+import { CURRENCY_CODES, getGoalCurrency } from "@/lib/currency"; // Currencies offered as the base
+import { DATE_FORMATS, DEFAULT_SETTINGS, LANGUAGES, LOCALES, Language, Settings as DisplaySettings, WeekStart } from "@/types/settings"; // Settings type and options
+
+// Select items can't have an empty value, so the browser's locale gets a placeholder one
+const BROWSER_LOCALE = "browser";
+
+// Days the week can start on (0 = Sunday), labelled by `weekday.<day>` messages
+const WEEK_STARTS = [0, 1, 6] as const satisfies readonly WeekStart[];
+
+// Amounts and date shown in the preview (minor units, as stored)
+const SAMPLES = [
+  { amount: 150000000, currency: "KES" },
+  { amount: 123456, currency: "EUR" },
+];
+
+const Settings = () => {
+  const { data: settings = DEFAULT_SETTINGS, isLoading, error } = useSettings();
+  const { data: goals = [] } = useGoals();
+  const updateSettings = useUpdateSettings();
+  const fmt = useFormatter();
+  const { t, errorMessage } = useTranslation();
+
+  const currencies = useMemo(() => [...new Set([...CURRENCY_CODES, ...goals.map(getGoalCurrency)])], [goals]);
+  const today = useMemo(() => new Date(), []);
+
+  // Save one setting; the change shows right away and is undone if saving fails
+  const change = (data: Partial<DisplaySettings>) =>
+    updateSettings.mutate(data, { onError: (e) => toast.error(errorMessage(e, t("settings.saveFailed"))) });
+
+  return (
+    <>
+      {/* SEO and meta tags for the page */}
+      <Helmet>
+        <title>{t("settings.metaTitle")}</title>
+        <meta name="description" content={t("settings.metaDescription")} />
+        <link rel="canonical" href="/settings" />
+      </Helmet>
+
+      {/* Page header */}
+      <header className="container py-10">
+        <Link to="/" className="text-sm text-muted-foreground hover:text-foreground">{t("common.backToGoals")}</Link>
+        <h1 className="mt-2 text-3xl font-bold tracking-tight">{t("settings.title")}</h1>
+        <p className="mt-3 text-muted-foreground max-w-2xl">
+          {t("settings.subtitle")}
+        </p>
+      </header>
+
+      <main className="container pb-16 grid gap-6 lg:grid-cols-2">
+        {isLoading && <div className="text-muted-foreground">{t("settings.loading")}</div>}
+        {error && <div className="text-destructive">{errorMessage(error, t("settings.loadFailed"))}</div>}
+
+        {!isLoading && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t("settings.displayTitle")}</CardTitle>
+                <CardDescription>{t("settings.displayDescription")}</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4">
+                {/* Interface language */}
+                <div className="grid gap-2">
+                  <Label htmlFor="settings-language">{t("settings.language")}</Label>
+                  <Select value={settings.language} onValueChange={(value) => change({ language: value as Language })}>
+                    <SelectTrigger id="settings-language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LANGUAGES.map((l) => (
+                        <SelectItem key={l.code} value={l.code}>{l.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Locale: number grouping, decimal mark, month names and currency symbols */}
+                <div className="grid gap-2">
+                  <Label htmlFor="settings-locale">{t("settings.locale")}</Label>
+                  <Select
+                    value={settings.locale || BROWSER_LOCALE}
+                    onValueChange={(value) => change({ locale: value === BROWSER_LOCALE ? "" : value })}
+                  >
+                    <SelectTrigger id="settings-locale">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOCALES.map((l) => (
+                        <SelectItem key={l.code} value={l.code || BROWSER_LOCALE}>{l.code ? l.label : t("settings.browserLocale")}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Base currency for totals and charts across goals */}
+                <div className="grid gap-2">
+                  <Label htmlFor="settings-base-currency">{t("rates.baseCurrency")}</Label>
+                  <Select value={settings.baseCurrency} onValueChange={(baseCurrency) => change({ baseCurrency })}>
+                    <SelectTrigger id="settings-base-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {currencies.map((code) => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground">
+                    {t("settings.baseCurrencyHint")}
+                  </p>
+                </div>
+
+                {/* Date format, each option shown with today's date */}
+                <div className="grid gap-2">
+                  <Label htmlFor="settings-date-format">{t("settings.dateFormat")}</Label>
+                  <Select value={settings.dateFormat} onValueChange={(value) => change({ dateFormat: value as DisplaySettings["dateFormat"] })}>
+                    <SelectTrigger id="settings-date-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>
+                          {createFormatter({ locale: settings.locale, dateFormat }).date(today)}
+                          {(dateFormat === "medium" || dateFormat === "long") && ` ${t("settings.followsRegion")}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* First column of the date pickers */}
+                <div className="grid gap-2">
+                  <Label htmlFor="settings-week-start">{t("settings.weekStart")}</Label>
+                  <Select value={String(settings.weekStartsOn)} onValueChange={(value) => change({ weekStartsOn: Number(value) as WeekStart })}>
+                    <SelectTrigger id="settings-week-start">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEK_STARTS.map((day) => (
+                        <SelectItem key={day} value={String(day)}>{t(`weekday.${day}`)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* How the current settings look */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t("settings.previewTitle")}</CardTitle>
+                <CardDescription>{t("settings.previewDescription")}</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-2 text-sm">
+                {SAMPLES.map((s) => (
+                  <div key={s.currency} className="flex justify-between gap-4">
+                    <span className="text-muted-foreground">{s.currency}</span>
+                    <span className="font-medium">{fmt.money(s.amount, s.currency)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">{t("settings.previewDate")}</span>
+                  <span className="font-medium">{fmt.date(today)}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">{t("settings.previewCompleted")}</span>
+                  <span className="font-medium">{fmt.percent(0.75)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,16 @@
+// A goal category managed in the /categories collection.
+// Goals reference categories by name, so renaming or merging updates the goals as well.
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // hex color, e.g. #3b82f6
+  icon: string; // key of CATEGORY_ICONS
+}
+
+export type CategoryInput = Omit<Category, "id">;
+
+// Category names are compared case-insensitively so "Shopping" and "shopping" are the same category
+export const sameCategory = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findCategory = (categories: Category[], name: string) =>
+  categories.find((c) => sameCategory(c.name, name));
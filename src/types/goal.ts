@@ -1,16 +1,36 @@
+export type ContributionFrequency = "weekly" | "biweekly" | "monthly";
+
+// A recurring contribution attached to a goal.
+// Due contributions are turned into pending deposits that the user confirms.
+export interface ContributionPlan {
+  amount: number; // integer minor units of the goal's currency
+  frequency: ContributionFrequency;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, open-ended when missing
+  scheduledThrough?: string; // YYYY-MM-DD of the last occurrence already turned into a pending deposit
+}
+
+// Money amounts are integers in the minor unit of the goal's currency (cents for USD), so they add up exactly;
+// see src/lib/currency.ts for converting to and from decimal amounts
 export interface Goal {
   id: string;
   name: string;
-  targetAmount: number;
-  savedAmount: number;
+  targetAmount: number; // minor units
+  savedAmount: number; // minor units
+  currency?: string; // ISO 4217 code the amounts are in; USD when missing (goals saved before currencies existed)
   category: string;
   deadline: string; // YYYY-MM-DD
   createdAt: string; // YYYY-MM-DD
+  plan?: ContributionPlan | null; // null once a plan has been removed
+  notes?: string; // free-form notes, edited on the goal detail page
+  schemaVersion?: number; // version of the stored shape, see src/lib/migrations.ts
+  version?: number; // revision counter, bumped on every write; stale writes are rejected (missing on goals saved before it existed)
 }
 
 export type GoalInput = {
   name: string;
-  targetAmount: number;
+  targetAmount: number; // minor units
+  currency: string; // ISO 4217 code, fixed once the goal exists
   category: string;
   deadline: string; // YYYY-MM-DD
 };
@@ -21,3 +41,44 @@ export const getProgress = (g: Goal) => {
 };
 
 export const getRemaining = (g: Goal) => Math.max(0, g.targetAmount - g.savedAmount);
+
+export type ContributionPeriod = "week" | "month";
+
+const DAYS_PER_PERIOD: Record<ContributionPeriod, number> = { week: 7, month: 365.25 / 12 };
+
+// How much must be saved each week/month to reach the target by the deadline, in minor units.
+// Rounded up so saving that much each period really does reach the target.
+// With less than one period left (or the deadline passed) the whole remainder is due now.
+export const getRequiredContribution = (g: Goal, period: ContributionPeriod, today = new Date()) => {
+  const remaining = getRemaining(g);
+  if (remaining <= 0) return 0;
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const days = (new Date(g.deadline + "T00:00:00").getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
+  const periods = days / DAYS_PER_PERIOD[period];
+  return Math.ceil(remaining / Math.max(1, periods));
+};
+
+// Savings this far past the target almost certainly come from a typo (an extra zero)
+export const IMPLAUSIBLE_OVERSHOOT = 5;
+
+// Values a goal should never have; shown as a warning instead of being silently corrected
+export type GoalIssue = "target-not-positive" | "negative-saved" | "implausible-overshoot" | "deadline-before-created";
+
+// English descriptions for migration logs (console and server); the interface looks the code up in src/i18n
+export const GOAL_ISSUE_LABELS: Record<GoalIssue, string> = {
+  "target-not-positive": "Target amount must be greater than zero",
+  "negative-saved": "Saved amount is negative",
+  "implausible-overshoot": `Saved amount is more than ${IMPLAUSIBLE_OVERSHOOT}× the target`,
+  "deadline-before-created": "Deadline is before the creation date",
+};
+
+export const getGoalIssueCodes = (g: Goal) => {
+  const issues: GoalIssue[] = [];
+  if (!(g.targetAmount > 0)) issues.push("target-not-positive");
+  if (g.savedAmount < 0) issues.push("negative-saved");
+  if (g.targetAmount > 0 && g.savedAmount > g.targetAmount * IMPLAUSIBLE_OVERSHOOT) issues.push("implausible-overshoot");
+  if (g.createdAt && g.deadline < g.createdAt) issues.push("deadline-before-created");
+  return issues;
+};
+
+export const getGoalIssues = (g: Goal) => getGoalIssueCodes(g).map((issue) => GOAL_ISSUE_LABELS[issue]);
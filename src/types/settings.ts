@@ -0,0 +1,48 @@
+import { DEFAULT_CURRENCY } from "../lib/currency";
+
+// Display preferences stored in the /settings document, shared by everyone using the same backend
+// Imported by the API server, so imports stay relative
+
+// Languages the interface is translated into (catalogs in src/i18n/)
+export const LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "sw", label: "Kiswahili" },
+] as const;
+export type Language = (typeof LANGUAGES)[number]["code"];
+
+// Regions whose number and date conventions are offered on the settings page; "" follows the browser
+export const LOCALES = [
+  { code: "", label: "Browser default" },
+  { code: "en-US", label: "English (United States)" },
+  { code: "en-GB", label: "English (United Kingdom)" },
+  { code: "en-KE", label: "English (Kenya)" },
+  { code: "sw-KE", label: "Kiswahili (Kenya)" },
+  { code: "de-DE", label: "Deutsch (Deutschland)" },
+  { code: "fr-FR", label: "Français (France)" },
+  { code: "es-ES", label: "Español (España)" },
+] as const;
+
+// How dates are written: the locale's own short or long style, or a fixed numeric pattern (date-fns tokens)
+export const DATE_FORMATS = ["medium", "long", "dd/MM/yyyy", "MM/dd/yyyy", "yyyy-MM-dd"] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+// First column of the calendar: Sunday, Monday or Saturday (same numbering as Date#getDay)
+export const WEEK_STARTS = [0, 1, 6] as const;
+export type WeekStart = (typeof WEEK_STARTS)[number];
+
+export interface Settings {
+  language: Language; // Interface text
+  locale: string; // Number and date formatting: BCP 47 tag from LOCALES, "" for the browser's
+  baseCurrency: string; // Totals and charts across goals are shown in this currency
+  dateFormat: DateFormat;
+  weekStartsOn: WeekStart;
+}
+
+// Used until settings are first saved, and for any field an older document is missing
+export const DEFAULT_SETTINGS: Settings = {
+  language: "en",
+  locale: "",
+  baseCurrency: DEFAULT_CURRENCY,
+  dateFormat: "medium",
+  weekStartsOn: 0,
+};
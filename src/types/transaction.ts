@@ -0,0 +1,65 @@
+// A single movement of money into or out of a goal.
+// Transactions form the goal's ledger; `Goal.savedAmount` is kept reconciled against it.
+// Transfers are stored as two linked entries, one on each goal
+export type TransactionType = "deposit" | "withdrawal" | "transfer-out" | "transfer-in";
+
+// Why money was taken out of a goal; required on every withdrawal
+export type WithdrawalReason = "emergency" | "purchase" | "reallocation" | "other";
+
+// In menu order; labels come from the `reason.*` messages
+export const WITHDRAWAL_REASONS: WithdrawalReason[] = ["emergency", "purchase", "reallocation", "other"];
+
+export interface Transaction {
+  id: string;
+  goalId: string;
+  amount: number; // integer minor units of the goal's currency, always positive; direction comes from `type`
+  date: string; // YYYY-MM-DD
+  note: string;
+  type: TransactionType;
+  reason?: WithdrawalReason; // only set on withdrawals
+  transferId?: string; // shared by both legs of a transfer
+  counterpartGoalId?: string; // the other goal of a transfer
+  status?: "pending" | "posted"; // pending entries come from a contribution plan and await confirmation; missing means posted
+  source?: "plan"; // written by a contribution plan rather than entered by hand
+}
+
+export type TransactionInput = {
+  goalId: string;
+  amount: number;
+  note?: string;
+  date?: string; // YYYY-MM-DD, defaults to today
+  reason?: WithdrawalReason;
+  transferId?: string;
+  counterpartGoalId?: string;
+  status?: Transaction["status"];
+  source?: Transaction["source"];
+};
+
+export type TransferInput = {
+  fromGoalId: string;
+  toGoalId: string;
+  amount: number; // in the source goal's currency
+  receivedAmount?: number; // credited to the destination in its own currency; same as `amount` when missing
+  note?: string;
+};
+
+export const isPending = (t: Pick<Transaction, "status">) => t.status === "pending";
+
+export const isOutgoing = (t: Pick<Transaction, "type">) => t.type === "withdrawal" || t.type === "transfer-out";
+
+export const isTransfer = (t: Pick<Transaction, "type">) => t.type === "transfer-out" || t.type === "transfer-in";
+
+// Effect of a transaction on the goal's saved amount
+// Pending entries have no effect until they are confirmed
+export const getSignedAmount = (t: Transaction) => {
+  if (isPending(t)) return 0;
+  return isOutgoing(t) ? -t.amount : t.amount;
+};
+
+// Net amount recorded in a ledger
+export const getLedgerTotal = (txs: Transaction[]) =>
+  txs.reduce((sum, t) => sum + getSignedAmount(t), 0);
+
+// Newest first, falling back to id (timestamp based) for same-day entries
+export const sortByDateDesc = (txs: Transaction[]) =>
+  [...txs].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
@@ -0,0 +1,15 @@
+import type { GoalQuery } from "@/lib/goal-query";
+
+// A named combination of search, filters and sort for the goals dashboard, stored in the /views collection
+// At most one view is the default, opened when the dashboard is visited without filters in the URL
+export interface SavedView {
+  id: string;
+  name: string;
+  query: GoalQuery;
+  isDefault?: boolean;
+}
+
+export type SavedViewInput = Omit<SavedView, "id">;
+
+// View names are unique regardless of case, like category names
+export const sameViewName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
@@ -37,6 +37,7 @@ interface ImportMetaEnv {
   readonly PROD: boolean;
   readonly SSR: boolean;
   readonly VITE_API_URL?: string;
+  readonly VITE_STORAGE?: "rest" | "local" | "memory";
   readonly VITE_APP_TITLE?: string;
   readonly VITE_APP_VERSION?: string;
 }
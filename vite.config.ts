@@ -1,8 +1,21 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import componentTagger from "vite-plugin-component-tagger"; // Plugin for tagging components in development mode
 
+// Lists the files of a production build so the service worker (public/sw.js) can cache the app shell on install
+const precacheManifest = (): Plugin => ({
+  name: "precache-manifest",
+  apply: "build",
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle)
+      .filter((file) => !file.endsWith(".html") && !file.endsWith(".map")) // index.html is cached as "/"
+      .map((file) => `/${file}`);
+    const publicFiles = ["/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+    this.emitFile({ type: "asset", fileName: "precache-manifest.json", source: JSON.stringify([...files, ...publicFiles]) });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +24,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    precacheManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),